@@ -3,6 +3,9 @@
 export { default as GlassCard } from './components/GlassCard.svelte';
 export { default as Timeline } from './components/Timeline.svelte';
 export { default as MoodChart } from './components/MoodChart.svelte';
+export { default as TimeSeriesChart } from './components/TimeSeriesChart.svelte';
+export { default as DataState } from './components/DataState.svelte';
 
 export * from './stores/data';
 export * from './utils/colors';
+export * from './utils/series';
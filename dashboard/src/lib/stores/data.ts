@@ -11,10 +11,12 @@ import type {
   MonthlySummary,
   WeeklySummary,
   JournalExtraction,
+  ExportMetadata,
 } from './types';
 
 interface DashboardData {
   generatedAt: string | null;
+  metadata: ExportMetadata | null;
   synthesis: TwoYearSynthesis | null;
   quarterlyNotepads: QuarterlyNotepad[];
   monthlySummaries: MonthlySummary[];
@@ -24,6 +26,7 @@ interface DashboardData {
 
 const initialData: DashboardData = {
   generatedAt: null,
+  metadata: null,
   synthesis: null,
   quarterlyNotepads: [],
   monthlySummaries: [],
@@ -35,7 +38,18 @@ export const data = writable<DashboardData>(initialData);
 export const isLoaded = writable(false);
 export const loadError = writable<string | null>(null);
 
-export async function loadDashboardData(): Promise<void> {
+// Shared by every page so navigating between routes fetches the file once
+let loading: Promise<void> | null = null;
+
+export function loadDashboardData(): Promise<void> {
+  if (!loading) {
+    loading = fetchDashboardData();
+  }
+  return loading;
+}
+
+async function fetchDashboardData(): Promise<void> {
+  loadError.set(null);
   try {
     const response = await fetch('/data/dashboard-data.json');
     if (!response.ok) {
@@ -47,6 +61,8 @@ export async function loadDashboardData(): Promise<void> {
   } catch (error) {
     loadError.set(error instanceof Error ? error.message : 'Unknown error');
     console.error('Failed to load dashboard data:', error);
+    // Allow a later page to retry
+    loading = null;
   }
 }
 
@@ -57,6 +73,39 @@ export const monthlySummaries = derived(data, ($data) => $data.monthlySummaries)
 
 export const totalEntries = derived(data, ($data) => $data.extractions.length);
 
+export const dateRange = derived(data, ($data) => {
+  if ($data.extractions.length === 0) return null;
+  const dates = $data.extractions.map((e) => e.date).sort();
+  return { start: dates[0], end: dates[dates.length - 1] };
+});
+
+// People across all entries, most mentioned first
+export const peopleMentioned = derived(data, ($data) => {
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const extraction of $data.extractions) {
+    for (const person of extraction.people_mentioned) {
+      const key = person.name.trim().toLowerCase();
+      const entry = counts.get(key) ?? { name: person.name.trim(), count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+});
+
+// Theme frequencies across all entries, most frequent first
+export const themeCounts = derived(data, ($data) => {
+  const counts = new Map<string, number>();
+  for (const extraction of $data.extractions) {
+    for (const theme of extraction.dominant_themes) {
+      counts.set(theme, (counts.get(theme) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([theme, count]) => ({ theme, count })).sort(
+    (a, b) => b.count - a.count
+  );
+});
+
 export const averageMood = derived(data, ($data) => {
   if ($data.extractions.length === 0) return 0;
   const sum = $data.extractions.reduce((acc, e) => acc + e.mood_score, 0);
@@ -129,3 +129,15 @@ export interface TwoYearSynthesis {
   executive_summary: string;
   full_narrative: string;
 }
+
+export interface ExportMetadata {
+  manifestHash: string | null;
+  model: string;
+  promptVersions: {
+    extraction: number;
+    weekly: number;
+    monthly: number;
+    quarterly: number;
+    synthesis: number;
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Time-series helpers for charts
+ *
+ * Turns extractions and weekly summaries into evenly spaced series where
+ * periods without data are null, so charts show them as gaps.
+ */
+
+import type { JournalExtraction, WeeklySummary } from '$lib/stores/types';
+import { chartColors } from './colors';
+
+export type SeriesKey = 'mood' | 'energy' | 'sleep' | 'social';
+export type Resolution = 'daily' | 'weekly';
+
+export interface TimeSeries {
+  labels: string[];
+  values: Record<SeriesKey, (number | null)[]>;
+}
+
+export const SERIES: Record<SeriesKey, { label: string; color: string }> = {
+  mood: { label: 'Mood', color: chartColors.mood },
+  energy: { label: 'Energy', color: chartColors.energy },
+  sleep: { label: 'Sleep Quality', color: chartColors.sleep },
+  social: { label: 'Social Energy', color: chartColors.social },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One point per calendar day from the first entry to the last. Days with
+ * several entries show their average.
+ */
+export function dailySeries(extractions: JournalExtraction[]): TimeSeries {
+  const byDate = new Map<string, JournalExtraction[]>();
+  for (const e of extractions) {
+    byDate.set(e.date, [...(byDate.get(e.date) ?? []), e]);
+  }
+  const labels = dateSteps(Array.from(byDate.keys()), 1);
+
+  const daily = (pick: (e: JournalExtraction) => number | null) =>
+    labels.map((d) =>
+      average((byDate.get(d) ?? []).map(pick).filter((v): v is number => v !== null))
+    );
+
+  return {
+    labels,
+    values: {
+      mood: daily((e) => e.mood_score),
+      energy: daily((e) => e.energy_level),
+      sleep: daily((e) => e.sleep_quality),
+      social: daily((e) => e.social_energy_spent),
+    },
+  };
+}
+
+/**
+ * One point per week, labelled by week start. Weekly summaries have no
+ * social energy field, so that series is averaged from the week's entries.
+ */
+export function weeklySeries(
+  weeklies: WeeklySummary[],
+  extractions: JournalExtraction[]
+): TimeSeries {
+  const byWeek = new Map(weeklies.map((w) => [w.week_start, w]));
+  const labels = dateSteps(Array.from(byWeek.keys()), 7);
+
+  const social = (week: WeeklySummary | undefined): number | null => {
+    if (!week) return null;
+    return average(
+      extractions
+        .filter((e) => e.date >= week.week_start && e.date <= week.week_end)
+        .map((e) => e.social_energy_spent)
+    );
+  };
+
+  return {
+    labels,
+    values: {
+      mood: labels.map((d) => byWeek.get(d)?.avg_mood ?? null),
+      energy: labels.map((d) => byWeek.get(d)?.avg_energy ?? null),
+      sleep: labels.map((d) => byWeek.get(d)?.avg_sleep_quality ?? null),
+      social: labels.map((d) => social(byWeek.get(d))),
+    },
+  };
+}
+
+/**
+ * Trailing average over the last `window` points, ignoring gaps.
+ * Points that are themselves gaps stay null.
+ */
+export function rollingAverage(values: (number | null)[], window: number): (number | null)[] {
+  if (window <= 1) return values;
+  return values.map((value, i) => {
+    if (value === null) return null;
+    const slice = values
+      .slice(Math.max(0, i - window + 1), i + 1)
+      .filter((v): v is number => v !== null);
+    return average(slice);
+  });
+}
+
+/**
+ * Restrict a series to labels within [start, end] (inclusive, YYYY-MM-DD)
+ */
+export function sliceSeries(series: TimeSeries, start: string, end: string): TimeSeries {
+  const keep = series.labels.map((label) => (!start || label >= start) && (!end || label <= end));
+  const pick = <T>(items: T[]) => items.filter((_, i) => keep[i]);
+
+  return {
+    labels: pick(series.labels),
+    values: {
+      mood: pick(series.values.mood),
+      energy: pick(series.values.energy),
+      sleep: pick(series.values.sleep),
+      social: pick(series.values.social),
+    },
+  };
+}
+
+/**
+ * Every date from the earliest to the latest given date, `step` days apart
+ */
+function dateSteps(dates: string[], step: number): string[] {
+  if (dates.length === 0) return [];
+  const sorted = [...dates].sort();
+  const end = Date.parse(`${sorted[sorted.length - 1]}T00:00:00Z`);
+
+  const labels: string[] = [];
+  for (let t = Date.parse(`${sorted[0]}T00:00:00Z`); t <= end; t += step * DAY_MS) {
+    labels.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return labels;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sum = values.reduce((acc, v) => acc + v, 0);
+  return Math.round((sum / values.length) * 10) / 10;
+}
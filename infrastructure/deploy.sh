@@ -15,8 +15,9 @@ echo "Creating D1 database..."
 wrangler d1 create reflections || echo "Database may already exist"
 
 echo ""
-echo "Applying D1 schema..."
+echo "Applying D1 schema and migrations..."
 wrangler d1 execute reflections --file=schema.sql
+wrangler d1 migrations apply reflections
 
 echo ""
 echo "Creating KV namespace..."
@@ -0,0 +1,3 @@
+-- Days with several entries: one extraction row per entry, ordered by
+-- sequence (1 for the day's first entry, 2 for date_2, ...)
+ALTER TABLE extractions ADD COLUMN sequence INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,4 @@
+-- One dead letter per job and run, so a redelivered DLQ message is not
+-- recorded twice
+ALTER TABLE dead_letters ADD COLUMN run_id TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dead_letters_job_run ON dead_letters(job_id, run_id);
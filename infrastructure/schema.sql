@@ -1,5 +1,7 @@
 -- Reflections D1 Schema
 -- Run with: wrangler d1 execute reflections --file=schema.sql
+-- then apply later changes with: wrangler d1 migrations apply reflections
+-- (pnpm db:migrate does both)
 
 -- Raw extractions from Phase 1
 CREATE TABLE IF NOT EXISTS extractions (
@@ -11,6 +13,7 @@ CREATE TABLE IF NOT EXISTS extractions (
 );
 
 CREATE INDEX IF NOT EXISTS idx_extractions_date ON extractions(date);
+-- sequence (Nth entry of the day) is added by migrations/0001_extraction_sequence.sql
 
 -- Weekly summaries (Tier 1)
 CREATE TABLE IF NOT EXISTS weekly_summaries (
@@ -70,3 +73,49 @@ CREATE TABLE IF NOT EXISTS job_status (
 );
 
 CREATE INDEX IF NOT EXISTS idx_job_status_type ON job_status(job_type, status);
+
+-- Messages that exhausted their queue retries, captured from the DLQs
+CREATE TABLE IF NOT EXISTS dead_letters (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  queue TEXT NOT NULL,
+  job_id TEXT NOT NULL,
+  job_type TEXT NOT NULL,
+  job_json TEXT NOT NULL,
+  error TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  replayed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_replayed ON dead_letters(replayed_at);
+
+-- LLM token usage and cost, one row per model call
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  job_id TEXT NOT NULL,
+  job_type TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL,
+  completion_tokens INTEGER NOT NULL,
+  cost_usd REAL NOT NULL,
+  latency_ms INTEGER NOT NULL,
+  retries INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_run ON llm_usage(run_id, job_type);
+
+-- Control actions taken through the HTTP API (start, pause, reset, ...)
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  action TEXT NOT NULL,
+  method TEXT NOT NULL,
+  params TEXT,
+  scope TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  ip TEXT,
+  user_agent TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at);
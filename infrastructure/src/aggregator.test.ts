@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { Env } from './index';
+import type { AggregationJob } from './schemas/types';
+import { handleAggregation } from './aggregator';
+import { isFresh } from './lib/lineage';
+
+/**
+ * Env with an empty D1 and an in-memory KV
+ */
+function emptyEnv(): Env {
+  const statement = {
+    bind: () => statement,
+    all: async () => ({ results: [] }),
+    first: async () => null,
+    run: async () => ({}),
+  };
+  const kv = new Map<string, string>();
+  return {
+    DB: { prepare: () => statement, batch: async () => [] },
+    CACHE: {
+      get: async (key: string) => kv.get(key) ?? null,
+      put: async (key: string, value: string) => void kv.set(key, value),
+    },
+  } as unknown as Env;
+}
+
+const unusedLimiter = {
+  acquire: async () => {
+    throw new Error('unexpected model call');
+  },
+  backoff: async () => {},
+};
+const unusedLedger = {
+  reserve: async () => {
+    throw new Error('unexpected model call');
+  },
+  release: async () => {},
+};
+
+describe('handleAggregation', () => {
+  it('marks an aggregate with no inputs fresh, so later runs skip it', async () => {
+    const env = emptyEnv();
+    const job: AggregationJob = {
+      type: 'aggregation',
+      runId: 'run-1',
+      tier: 'weekly',
+      rangeStart: '2024-01-01',
+      rangeEnd: '2024-01-07',
+      cacheKey: 'weekly:2024-01-01:2024-01-07:abc',
+    };
+
+    await handleAggregation(job, env, unusedLimiter, unusedLedger);
+
+    expect(await isFresh(env.CACHE, 'weekly:2024-01-01:2024-01-07:abc')).toBe(true);
+  });
+});
@@ -9,32 +9,192 @@
  */
 
 import type { Env } from './index';
-import type {
-  WeeklySummary,
-  MonthlySummary,
-  QuarterlyNotepad,
-  TwoYearSynthesis,
-} from './schemas/types';
-import { callOpenRouter } from './lib/openrouter';
-
-interface AggregationJob {
-  type: 'aggregation';
-  tier: 'weekly' | 'monthly' | 'quarterly' | 'synthesis';
-  rangeStart: string;
-  rangeEnd: string;
+import type { AggregationJob } from './schemas/types';
+import type { ValidationResult } from './schemas/validators';
+import type { RateLimiter } from './lib/rate-limiter';
+import type { BudgetLedger } from './lib/usage';
+import {
+  validateWeeklySummary,
+  validateMonthlySummary,
+  validateQuarterlyNotepad,
+  validateTwoYearSynthesis,
+} from './schemas/validators';
+import { parseAndValidate } from './lib/openrouter';
+import { callMetered } from './lib/usage';
+import { hashContent } from './lib/cache';
+import { markFresh } from './lib/lineage';
+import { getMonthBounds, getQuarterMonths } from './lib/dates';
+import {
+  computeWeeklyMetrics,
+  computeMonthlyMetrics,
+  computeQuarterlyMetrics,
+  computeSynthesisMetrics,
+} from './lib/stats';
+import {
+  getExtractionsInRange,
+  getAllExtractions,
+  getWeeklySummariesForMonth,
+  getMonthlySummariesForQuarter,
+  getAllQuarterlyNotepads,
+  storeWeeklySummary,
+  storeMonthlySummary,
+  storeQuarterlyNotepad,
+  storeSynthesis,
+  getJobId,
+  isJobUnchanged,
+  markJobRunning,
+  markJobDone,
+} from './lib/d1';
+import { getWeeklyPrompt, getWeeklySystemPrompt } from './prompts/weekly';
+import { getMonthlyPrompt, getMonthlySystemPrompt } from './prompts/monthly';
+import { getQuarterlyPrompt, getQuarterlySystemPrompt } from './prompts/quarterly';
+import { getSynthesisPrompt, getSynthesisSystemPrompt } from './prompts/synthesis';
+
+interface TierSpec<T> {
+  metrics: unknown; // Hashed with the inputs, since it is computed outside them
+  resultId: string; // Row id the result is stored under
+  systemPrompt: string;
+  prompt: string;
+  validate: (input: unknown) => ValidationResult<T>;
+  store: (result: T) => Promise<void>;
 }
 
 export async function handleAggregation(
-  message: Message,
-  env: Env
+  job: AggregationJob,
+  env: Env,
+  limiter: RateLimiter,
+  ledger: BudgetLedger
 ): Promise<void> {
-  const job = message.body as AggregationJob;
+  switch (job.tier) {
+    case 'weekly': {
+      const extractions = await getExtractionsInRange(env.DB, job.rangeStart, job.rangeEnd);
+      const metrics = computeWeeklyMetrics(extractions);
+      return runTier(env, limiter, ledger, job, extractions, {
+        metrics,
+        resultId: `weekly-${job.rangeStart}`,
+        systemPrompt: getWeeklySystemPrompt(),
+        prompt: getWeeklyPrompt(job.rangeStart, job.rangeEnd, extractions, metrics),
+        validate: (input) =>
+          validateWeeklySummary(input, {
+            coerce: true,
+            overrides: { ...metrics, week_start: job.rangeStart, week_end: job.rangeEnd },
+          }),
+        store: (summary) => storeWeeklySummary(env.DB, summary),
+      });
+    }
+
+    case 'monthly': {
+      const weeklies = await getWeeklySummariesForMonth(env.DB, job.rangeStart);
+      const { start, end } = getMonthBounds(job.rangeStart);
+      const metrics = computeMonthlyMetrics(await getExtractionsInRange(env.DB, start, end));
+      return runTier(env, limiter, ledger, job, weeklies, {
+        metrics,
+        resultId: `monthly-${job.rangeStart}`,
+        systemPrompt: getMonthlySystemPrompt(),
+        prompt: getMonthlyPrompt(job.rangeStart, weeklies, metrics),
+        validate: (input) =>
+          validateMonthlySummary(input, {
+            coerce: true,
+            overrides: { ...metrics, month: job.rangeStart },
+          }),
+        store: (summary) => storeMonthlySummary(env.DB, summary),
+      });
+    }
+
+    case 'quarterly': {
+      const monthlies = await getMonthlySummariesForQuarter(env.DB, job.rangeStart);
+      const months = getQuarterMonths(job.rangeStart);
+      const metrics = computeQuarterlyMetrics(
+        await getExtractionsInRange(
+          env.DB,
+          getMonthBounds(months[0]).start,
+          getMonthBounds(months[2]).end
+        )
+      );
+      return runTier(env, limiter, ledger, job, monthlies, {
+        metrics,
+        resultId: `quarterly-${job.rangeStart}`,
+        systemPrompt: getQuarterlySystemPrompt(),
+        prompt: getQuarterlyPrompt(job.rangeStart, monthlies, metrics),
+        validate: (input) =>
+          validateQuarterlyNotepad(input, {
+            coerce: true,
+            overrides: { ...metrics, quarter: job.rangeStart },
+          }),
+        store: (notepad) => storeQuarterlyNotepad(env.DB, notepad),
+      });
+    }
+
+    case 'synthesis': {
+      const notepads = await getAllQuarterlyNotepads(env.DB);
+      const metrics = computeSynthesisMetrics(await getAllExtractions(env.DB));
+      return runTier(env, limiter, ledger, job, notepads, {
+        metrics,
+        resultId: 'main',
+        systemPrompt: getSynthesisSystemPrompt(),
+        prompt: getSynthesisPrompt(notepads, metrics),
+        validate: (input) =>
+          validateTwoYearSynthesis(input, { coerce: true, overrides: metrics }),
+        store: (synthesis) => storeSynthesis(env.DB, synthesis),
+      });
+    }
+  }
+}
+
+/**
+ * Call the model for one tier job, validate the output and store it.
+ * Jobs whose inputs and metrics are unchanged since their last success are
+ * skipped. Invalid output is thrown rather than written, so the queue
+ * retries the job and dead-letters it if the model never gets it right.
+ */
+async function runTier<T>(
+  env: Env,
+  limiter: RateLimiter,
+  ledger: BudgetLedger,
+  job: AggregationJob,
+  inputs: unknown[],
+  spec: TierSpec<T>
+): Promise<void> {
+  const label = `${job.tier} ${job.rangeStart} - ${job.rangeEnd}`;
+  const jobId = getJobId(job);
+
+  if (inputs.length === 0) {
+    // Fresh too: with nothing to build from it is as up to date as it gets
+    console.log(`Skipping ${label}: no inputs`);
+    if (job.cacheKey) await markFresh(env.CACHE, job.cacheKey);
+    return;
+  }
+
+  const inputHash = await hashContent(JSON.stringify([inputs, spec.metrics]));
+  if (!job.force && (await isJobUnchanged(env.DB, jobId, inputHash))) {
+    console.log(`Unchanged: ${label}`);
+    if (job.cacheKey) await markFresh(env.CACHE, job.cacheKey);
+    return;
+  }
+  await markJobRunning(env.DB, jobId, job.tier);
+
+  console.log(`Processing ${label} (${inputs.length} inputs)`);
+
+  const response = await callMetered(
+    env,
+    { runId: job.runId, jobId, jobType: job.tier },
+    [
+      { role: 'system', content: spec.systemPrompt },
+      { role: 'user', content: spec.prompt },
+    ],
+    limiter,
+    ledger
+  );
 
-  // TODO: Implement aggregation logic based on tier
-  // 1. Query D1 for input data (previous tier or extractions)
-  // 2. Build prompt for the tier
-  // 3. Call OpenRouter
-  // 4. Store result in appropriate D1 table
+  const result = parseAndValidate(response, spec.validate);
+  if (!result.value) {
+    throw new Error(`Invalid ${job.tier} output: ${result.errors.join('; ')}`);
+  }
+  if (result.repairs.length > 0) {
+    console.log(`Repaired ${label}: ${result.repairs.join('; ')}`);
+  }
 
-  console.log(`Processing ${job.tier} aggregation for ${job.rangeStart} - ${job.rangeEnd}`);
+  await spec.store(result.value);
+  await markJobDone(env.DB, jobId, job.tier, inputHash, spec.resultId);
+  if (job.cacheKey) await markFresh(env.CACHE, job.cacheKey);
 }
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import type { Env } from './index';
+import type { PipelineJob } from './schemas/types';
+import { ReflectionsCoordinator } from './coordinator';
+
+/**
+ * In-memory Durable Object state. Every await yields, so requests interleave
+ * the way they do in production whenever the input gate opens; only
+ * blockConcurrencyWhile holds others back.
+ */
+function fakeState(): DurableObjectState {
+  const data = new Map<string, unknown>();
+  let gate: Promise<unknown> = Promise.resolve();
+
+  const storage = {
+    async get(key: string) {
+      return structuredClone(data.get(key));
+    },
+    async put(key: string | Record<string, unknown>, value?: unknown) {
+      const entries = typeof key === 'string' ? { [key]: value } : key;
+      for (const [k, v] of Object.entries(entries)) data.set(k, structuredClone(v));
+    },
+    async delete(keys: string | string[]) {
+      for (const key of typeof keys === 'string' ? [keys] : keys) data.delete(key);
+    },
+    async list({ prefix }: { prefix: string }) {
+      return new Map(Array.from(data).filter(([key]) => key.startsWith(prefix)));
+    },
+    async deleteAll() {
+      data.clear();
+    },
+  };
+
+  return {
+    storage,
+    blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+      const result = gate.then(callback);
+      gate = result.catch(() => {});
+      return result;
+    },
+  } as unknown as DurableObjectState;
+}
+
+/**
+ * D1 that accepts every statement and stores nothing; dead_letters reads
+ * return the given rows
+ */
+function fakeDb(deadLetters: unknown[] = []): D1Database {
+  const statement = (sql: string) => {
+    const self = {
+      bind: () => self,
+      all: async () => ({ results: sql.includes('FROM dead_letters') ? deadLetters : [] }),
+      first: async () => null,
+      run: async () => ({}),
+    };
+    return self;
+  };
+  return { prepare: statement, batch: async () => [] } as unknown as D1Database;
+}
+
+const MANIFEST = {
+  entries: ['2024-01-01', '2024-01-02', '2024-01-03'].map((date) => ({
+    entryId: date,
+    date,
+    r2Key: `journals/${date}.md`,
+    wordCount: 10,
+    contentHash: date,
+  })),
+};
+
+/**
+ * Coordinator whose extraction queue calls `onSend` on every batch, in the
+ * middle of dispatching
+ */
+function setup(
+  onSend: (coordinator: ReflectionsCoordinator) => void = () => {},
+  deadLetters: unknown[] = []
+) {
+  const queue = {
+    async sendBatch() {
+      onSend(coordinator);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    },
+  };
+  const env = {
+    JOURNALS_BUCKET: {
+      async get() {
+        return { arrayBuffer: async () => new TextEncoder().encode(JSON.stringify(MANIFEST)).buffer };
+      },
+    },
+    DB: fakeDb(deadLetters),
+    EXTRACTION_QUEUE: queue,
+    AGGREGATION_QUEUE: queue,
+  } as unknown as Env;
+  const coordinator = new ReflectionsCoordinator(fakeState(), env);
+  return coordinator;
+}
+
+function post(coordinator: ReflectionsCoordinator, path: string, body?: unknown) {
+  return coordinator.fetch(
+    new Request(`https://coordinator${path}`, { method: 'POST', body: JSON.stringify(body ?? {}) })
+  );
+}
+
+async function getStatus(coordinator: ReflectionsCoordinator) {
+  const response = await coordinator.fetch(new Request('https://coordinator/api/status'));
+  return (await response.json()) as {
+    phase: string;
+    totalEntries: number;
+    processedEntries: number;
+  };
+}
+
+describe('ReflectionsCoordinator', () => {
+  it('counts a job that completes while the run is still being dispatched', async () => {
+    const job: PipelineJob = { ...MANIFEST.entries[0], type: 'extraction', runId: '' };
+    const completions: Promise<Response>[] = [];
+    const coordinator = setup((c) => completions.push(post(c, '/internal/complete', job)));
+
+    const response = await post(coordinator, '/api/start');
+    const results = await Promise.all(completions);
+
+    expect(response.status).toBe(200);
+    expect(await results[0].json()).toEqual({ status: 'recorded' });
+    expect(await getStatus(coordinator)).toMatchObject({ phase: 'extracting', processedEntries: 1 });
+  });
+
+  it('starts only one run when two starts arrive together', async () => {
+    const coordinator = setup();
+
+    const responses = await Promise.all([
+      post(coordinator, '/api/start'),
+      post(coordinator, '/api/start'),
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 409]);
+  });
+
+  it.each(['/api/reset', '/api/export'])('only accepts POST for %s', async (path) => {
+    const coordinator = setup();
+
+    const response = await coordinator.fetch(new Request(`https://coordinator${path}`));
+
+    expect(response.status).toBe(405);
+    expect(await response.json()).toEqual({ error: 'Use POST' });
+  });
+
+  it('refuses to replay dead letters during a run', async () => {
+    const coordinator = setup();
+    await post(coordinator, '/api/start');
+
+    const response = await post(coordinator, '/api/failures/replay');
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ error: 'Cannot replay while extracting' });
+  });
+
+  it('replays a job dead-lettered in several runs once', async () => {
+    const job = { ...MANIFEST.entries[0], type: 'extraction' };
+    const deadLetters = ['run-1', 'run-2'].map((runId, i) => ({
+      id: i + 1,
+      queue: 'extraction-dlq',
+      job_id: 'extraction-2024-01-01',
+      job_type: 'extraction',
+      job_json: JSON.stringify({ ...job, runId }),
+    }));
+    const coordinator = setup(undefined, deadLetters);
+
+    const response = await post(coordinator, '/api/failures/replay');
+
+    expect(response.status).toBe(200);
+    expect(await getStatus(coordinator)).toMatchObject({ phase: 'extracting', totalEntries: 1 });
+  });
+});
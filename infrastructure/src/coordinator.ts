@@ -6,26 +6,148 @@
  * - Enqueues extraction jobs
  * - Tracks progress across phases
  * - Triggers aggregation tiers when ready
+ * - Pauses, resumes and cancels runs, or runs a single tier or entry
+ * - Streams progress to /api/stream listeners as Server-Sent Events
+ *
+ * Every job the current run still expects is kept under `job:<jobId>` until
+ * it completes or is dead-lettered. Consumers only run jobs found there, so
+ * pausing or cancelling drops queued messages, and resuming re-enqueues
+ * whatever is left.
  */
 
 import type { Env } from './index';
+import type {
+  Manifest,
+  ManifestEntry,
+  AggregationTier,
+  AggregationJob,
+  ExtractionJob,
+  PipelineJob,
+} from './schemas/types';
+import { getObject } from './lib/r2';
+import {
+  getUsageByJobType,
+  getRunCost,
+  getFailedJobs,
+  getJobId,
+  markJobsPending,
+  getDeadLetters,
+  markDeadLettersReplayed,
+  deleteOrphanExtractions,
+} from './lib/d1';
+import type { UsageTotals } from './lib/d1';
+import { getBudget } from './lib/usage';
+import type { BudgetLedger } from './lib/usage';
+import { exportDashboardData } from './exporter';
+import { getExtractionInputHash } from './extractor';
+import { buildLineage, filterStale, coversDate } from './lib/lineage';
+import { getEntryDate } from './lib/dates';
+import { SharedRateLimit, getRateLimiterConfig, withJitter } from './lib/rate-limiter';
+import type { RateLimiter } from './lib/rate-limiter';
+
+type Phase = 'idle' | 'extracting' | 'aggregating' | 'complete' | 'cancelled';
+
+/**
+ * What a run covers when it is not the whole pipeline:
+ * - date: one entry re-extracted, then the aggregates built from it
+ * - tier: one tier (optionally one range) regenerated, nothing after it
+ */
+type RunTarget = { date: string } | { tier: AggregationTier; range: string | null };
 
 interface PipelineState {
-  phase: 'idle' | 'extracting' | 'aggregating' | 'complete';
+  phase: Phase;
+  runId: string | null;
+  target: RunTarget | null; // null for a full run
+  // Set via /api/pause or when a consumer refuses a call (e.g. over budget)
+  paused: boolean;
+  pauseReason: string | null;
   totalEntries: number;
   processedEntries: number;
-  currentTier: 'weekly' | 'monthly' | 'quarterly' | 'synthesis' | null;
+  currentTier: AggregationTier | null;
+  tierJobs: number;
+  tierCompleted: number;
+  // Jobs dead-lettered in this run. They count towards the totals above so
+  // the run still finishes, but its results are incomplete while this is > 0.
+  failedJobs: number;
   startedAt: string | null;
   completedAt: string | null;
 }
 
+const TIER_ORDER: AggregationTier[] = ['weekly', 'monthly', 'quarterly', 'synthesis'];
+
+// Queue.sendBatch accepts at most 100 messages per call
+const QUEUE_BATCH_LIMIT = 100;
+
+const ACTIVE_PHASES: Phase[] = ['extracting', 'aggregating'];
+
+const JOB_PREFIX = 'job:';
+
+// Comment lines sent to idle streams so proxies don't close them
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+/**
+ * Events sent on /api/stream. `data` is JSON; a `state` snapshot is sent
+ * first on every connection.
+ */
+type ProgressEvent =
+  | { event: 'state'; data: PipelineState }
+  | {
+      event: 'phase';
+      data: Pick<
+        PipelineState,
+        'runId' | 'phase' | 'currentTier' | 'paused' | 'pauseReason' | 'failedJobs'
+      >;
+    }
+  | {
+      event: 'extraction';
+      data: { date: string; processed: number; total: number; failed: boolean };
+    }
+  | {
+      event: 'tier';
+      data: {
+        tier: AggregationTier;
+        range: string;
+        completed: number;
+        total: number;
+        failed: boolean;
+      };
+    }
+  | { event: 'failure'; data: { jobId: string; jobType: string; error: string; attempt: number } }
+  | { event: 'cost'; data: { runId: string; costUsd: number; budgetUsd: number | null } };
+
+const IDLE_STATE: PipelineState = {
+  phase: 'idle',
+  runId: null,
+  target: null,
+  paused: false,
+  pauseReason: null,
+  totalEntries: 0,
+  processedEntries: 0,
+  currentTier: null,
+  tierJobs: 0,
+  tierCompleted: 0,
+  failedJobs: 0,
+  startedAt: null,
+  completedAt: null,
+};
+
 export class ReflectionsCoordinator implements DurableObject {
   private state: DurableObjectState;
   private env: Env;
+  // In memory: a restart only forgets the last minute of requests
+  private rateLimit: SharedRateLimit;
+  // Estimated cost of calls in flight, per run. Also in memory: a restart
+  // only forgets reservations for calls already under way.
+  private reservedUsd = new Map<string, number>();
+  // Open /api/stream connections; they keep this instance alive
+  private streams = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private keepalive: ReturnType<typeof setInterval> | null = null;
+  private lastPhase: string | null = null;
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
+    this.rateLimit = new SharedRateLimit(getRateLimiterConfig(env));
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -33,43 +155,921 @@ export class ReflectionsCoordinator implements DurableObject {
 
     switch (url.pathname) {
       case '/api/start':
-        return this.startPipeline();
+        return this.exclusive(() => this.startPipeline());
 
       case '/api/status':
         return this.getStatus();
 
+      case '/api/stream':
+        return this.openStream();
+
       case '/api/reset':
-        return this.resetPipeline();
+        if (request.method !== 'POST') {
+          return json({ error: 'Use POST' }, 405);
+        }
+        return this.exclusive(() => this.resetPipeline());
+
+      case '/api/pause':
+      case '/api/resume':
+      case '/api/cancel':
+      case '/api/run':
+      case '/api/rerun':
+        if (request.method !== 'POST') {
+          return json({ error: 'Use POST' }, 405);
+        }
+        return this.exclusive(() => this.control(url));
+
+      case '/api/export':
+        if (request.method !== 'POST') {
+          return json({ error: 'Use POST' }, 405);
+        }
+        return json(await exportDashboardData(this.env));
+
+      case '/api/failures':
+        return json({ deadLetters: await getDeadLetters(this.env.DB) });
+
+      case '/api/failures/replay':
+        if (request.method !== 'POST') {
+          return json({ error: 'Use POST' }, 405);
+        }
+        return this.exclusive(() => this.replayDeadLetters(url));
+
+      // Internal: called by queue consumers, never routed from the public worker
+      case '/internal/complete': {
+        const job = await request.json<PipelineJob>();
+        return this.exclusive(() => this.completeJob(job));
+      }
+
+      case '/internal/dead': {
+        const job = await request.json<PipelineJob>();
+        return this.exclusive(() => this.completeJob(job, true));
+      }
+
+      case '/internal/admit':
+        return this.admitJob(await request.json<PipelineJob>());
+
+      case '/internal/failed': {
+        const { job, error, attempt } = await request.json<{
+          job: PipelineJob;
+          error: string;
+          attempt: number;
+        }>();
+        this.broadcast({
+          event: 'failure',
+          data: {
+            jobId: getJobId(job),
+            jobType: job.type === 'extraction' ? 'extraction' : job.tier,
+            error,
+            attempt,
+          },
+        });
+        return json({ ok: true });
+      }
+
+      case '/internal/acquire': {
+        const { tokens } = await request.json<{ tokens: number }>();
+        return json({ waitMs: this.rateLimit.tryAcquire(tokens) });
+      }
+
+      case '/internal/backoff': {
+        const { delayMs } = await request.json<{ delayMs: number }>();
+        this.rateLimit.block(delayMs);
+        return json({ ok: true });
+      }
+
+      case '/internal/reserve': {
+        const { runId, estimateUsd } = await request.json<{ runId: string; estimateUsd: number }>();
+        return json(await this.reserveBudget(runId, estimateUsd));
+      }
+
+      case '/internal/release': {
+        const { runId, estimateUsd } = await request.json<{ runId: string; estimateUsd: number }>();
+        this.releaseBudget(runId, estimateUsd);
+        return json({ ok: true });
+      }
+
+      case '/internal/pause': {
+        const { reason, job } = await request.json<{ reason: string; job?: PipelineJob }>();
+        return this.exclusive(async () => {
+          const state = await this.loadState();
+          if (ACTIVE_PHASES.includes(state.phase)) {
+            if (job && job.runId === state.runId) {
+              await this.holdJob(job);
+            }
+            if (!state.paused) {
+              await this.pause(state, reason);
+            }
+          }
+          return json({ status: state.paused ? 'paused' : state.phase });
+        });
+      }
 
       default:
         return new Response('Not Found', { status: 404 });
     }
   }
 
+  /**
+   * Handle a request that reads, changes and saves the pipeline state with
+   * no other request in between. Awaiting D1, KV or a queue send lets other
+   * requests run; a completion landing mid-dispatch would otherwise read the
+   * old phase and be lost, and two starts could both pass the phase check.
+   * Errors are rethrown outside the block, where they don't reset the object.
+   */
+  private async exclusive(handler: () => Promise<Response>): Promise<Response> {
+    const outcome = await this.state.blockConcurrencyWhile(() =>
+      handler().then(
+        (response) => ({ response }),
+        (error: unknown) => ({ error })
+      )
+    );
+    if ('error' in outcome) throw outcome.error;
+    return outcome.response;
+  }
+
   private async startPipeline(): Promise<Response> {
-    // TODO: Implement pipeline start logic
-    // 1. Read manifest.json from R2
-    // 2. Enqueue extraction jobs for each entry
-    // 3. Update pipeline state
+    const current = await this.loadState();
+    if (ACTIVE_PHASES.includes(current.phase)) {
+      return json({ error: `Pipeline already ${current.phase}` }, 409);
+    }
 
-    return new Response(JSON.stringify({ status: 'started' }), {
-      headers: { 'Content-Type': 'application/json' },
-    });
+    const manifestJson = await getObject(this.env.JOURNALS_BUCKET, 'manifest.json', this.env.ENCRYPTION_KEY);
+    if (!manifestJson) {
+      return json({ error: 'manifest.json not found in journals bucket' }, 404);
+    }
+
+    const manifest = JSON.parse(manifestJson) as Manifest;
+    if (manifest.entries.length === 0) {
+      return json({ error: 'Manifest has no entries' }, 400);
+    }
+
+    await this.clearJobs();
+    const entryHashes = await getEntryHashes(manifest.entries);
+    await this.state.storage.put('entryHashes', entryHashes);
+
+    // Entries merged away or removed since the last run would still be read
+    // by the aggregates
+    const orphans = await deleteOrphanExtractions(this.env.DB, Object.keys(entryHashes));
+    if (orphans > 0) {
+      console.log(`Deleted ${orphans} extractions no longer in the manifest`);
+    }
+
+    const runId = crypto.randomUUID();
+    const jobs = manifest.entries.map((entry) => extractionJob(entry, runId));
+    await this.dispatch(jobs);
+
+    const state: PipelineState = {
+      ...IDLE_STATE,
+      phase: 'extracting',
+      runId,
+      totalEntries: jobs.length,
+      startedAt: new Date().toISOString(),
+    };
+    await this.saveState(state);
+
+    console.log(`Pipeline started: ${jobs.length} extraction jobs enqueued`);
+    return json({ status: 'started', runId, totalEntries: jobs.length });
   }
 
+  /**
+   * Pipeline state plus token usage and spend for the current run, and
+   * every job (by date or range) whose last attempt failed
+   */
   private async getStatus(): Promise<Response> {
-    const state = await this.state.storage.get<PipelineState>('pipeline');
+    const state = await this.loadState();
+    const [byJobType, failures] = await Promise.all([
+      state.runId
+        ? getUsageByJobType(this.env.DB, state.runId)
+        : ({} as Record<string, UsageTotals>),
+      getFailedJobs(this.env.DB),
+    ]);
+
+    const total: UsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+    for (const usage of Object.values(byJobType)) {
+      total.calls += usage.calls;
+      total.promptTokens += usage.promptTokens;
+      total.completionTokens += usage.completionTokens;
+      total.costUsd += usage.costUsd;
+    }
 
-    return new Response(JSON.stringify(state || { phase: 'idle' }), {
-      headers: { 'Content-Type': 'application/json' },
+    return json({
+      ...state,
+      usage: { total, byJobType, budgetUsd: getBudget(this.env) },
+      failures: failures.map(({ jobId, jobType, error, updatedAt }) => ({
+        jobId,
+        jobType,
+        error,
+        updatedAt,
+      })),
     });
   }
 
+  /**
+   * Re-run dead-lettered jobs as a new run: ?id=3&id=7 for specific ones, or
+   * all. Only between runs, so the replayed jobs never mix with another
+   * run's counters. Extractions are re-enqueued; aggregates are left to the
+   * tier pass that follows, which rebuilds every aggregate that failed or
+   * was built without a failed input.
+   */
+  private async replayDeadLetters(url: URL): Promise<Response> {
+    const current = await this.loadState();
+    if (ACTIVE_PHASES.includes(current.phase)) {
+      return json({ error: `Cannot replay while ${current.phase}` }, 409);
+    }
+
+    const ids = url.searchParams.getAll('id').map(Number);
+    if (ids.some((id) => !Number.isInteger(id))) {
+      return json({ error: 'id must be an integer' }, 400);
+    }
+
+    const deadLetters = await getDeadLetters(this.env.DB, ids.length > 0 ? ids : undefined);
+    if (deadLetters.length === 0) {
+      return json({ error: 'No matching dead letters' }, 404);
+    }
+
+    const state = this.newRun(null);
+    // A job dead-lettered in several runs is replayed once
+    const byJobId = new Map(deadLetters.map((d) => [d.jobId, d.job]));
+    const jobs = Array.from(byJobId.values())
+      .filter((job): job is ExtractionJob => job.type === 'extraction')
+      .map((job) => ({ ...job, runId: state.runId ?? '' }));
+    await this.clearJobs();
+    if (jobs.length > 0) {
+      await this.dispatch(jobs);
+      state.phase = 'extracting';
+      state.totalEntries = jobs.length;
+    } else {
+      await this.startTier(state, this.firstTier(state));
+    }
+    await markDeadLettersReplayed(this.env.DB, deadLetters.map((d) => d.id));
+    await this.saveState(state);
+
+    console.log(`Replaying ${deadLetters.length} dead-lettered jobs (${jobs.length} extractions)`);
+    return json({
+      status: 'started',
+      runId: state.runId,
+      replayed: deadLetters.map((d) => d.jobId),
+    });
+  }
+
+  // ==========================================================================
+  // Run control
+  // ==========================================================================
+
+  /**
+   * Pause, resume, cancel, or start a targeted run. Each is only valid from
+   * some phases; anything else is a 409 naming the current phase.
+   */
+  private async control(url: URL): Promise<Response> {
+    const state = await this.loadState();
+    const active = ACTIVE_PHASES.includes(state.phase);
+    const conflict = (action: string) =>
+      json({ error: `Cannot ${action} while ${state.paused ? 'paused' : state.phase}` }, 409);
+
+    switch (url.pathname) {
+      case '/api/pause':
+        if (!active || state.paused) return conflict('pause');
+        await this.pause(state, url.searchParams.get('reason') ?? 'Paused via API');
+        return json({ status: 'paused', reason: state.pauseReason });
+
+      case '/api/resume':
+        if (!active || !state.paused) return conflict('resume');
+        return this.resume(state);
+
+      case '/api/cancel':
+        if (!active) return conflict('cancel');
+        return this.cancel(state);
+
+      case '/api/run':
+        if (active) return conflict('run a tier');
+        return this.runTier(url);
+
+      default:
+        if (active) return conflict('rerun an entry');
+        return this.rerunEntry(url);
+    }
+  }
+
+  private async pause(state: PipelineState, reason: string): Promise<void> {
+    state.paused = true;
+    state.pauseReason = reason;
+    await this.saveState(state);
+    console.log(`Pipeline paused: ${reason}`);
+  }
+
+  /**
+   * Continue a paused run: advance if the current phase finished while
+   * paused, otherwise re-enqueue its unfinished jobs (queued messages were
+   * dropped while paused)
+   */
+  private async resume(state: PipelineState): Promise<Response> {
+    state.paused = false;
+    state.pauseReason = null;
+
+    if (state.phase === 'extracting' && state.processedEntries >= state.totalEntries) {
+      await this.startTier(state, this.firstTier(state));
+    } else if (
+      state.phase === 'aggregating' &&
+      state.currentTier &&
+      state.tierCompleted >= state.tierJobs
+    ) {
+      await this.startTier(state, this.tierAfter(state, state.currentTier));
+    } else {
+      const pending = await this.state.storage.list<PipelineJob>({ prefix: JOB_PREFIX });
+      await this.dispatch(Array.from(pending.values()));
+      console.log(`Pipeline resumed: ${pending.size} jobs re-enqueued`);
+    }
+
+    await this.saveState(state);
+    return json({ status: 'resumed', phase: state.phase, currentTier: state.currentTier });
+  }
+
+  /**
+   * Stop the run: queued jobs are dropped by consumers, results already
+   * stored are kept
+   */
+  private async cancel(state: PipelineState): Promise<Response> {
+    const pending = await this.clearJobs();
+    state.phase = 'cancelled';
+    state.paused = false;
+    state.pauseReason = null;
+    state.completedAt = new Date().toISOString();
+    await this.saveState(state);
+
+    console.log(`Pipeline cancelled: ${pending} jobs dropped`);
+    return json({ status: 'cancelled', dropped: pending });
+  }
+
+  /**
+   * Regenerate one tier from what is already in D1, e.g. after editing its
+   * prompt: /api/run?tier=monthly&range=2025-03. Without range, every
+   * aggregate of the tier. Jobs are forced, so unchanged inputs still call
+   * the model. Later tiers are not re-run.
+   */
+  private async runTier(url: URL): Promise<Response> {
+    const tier = url.searchParams.get('tier') as AggregationTier | null;
+    const range = url.searchParams.get('range');
+    if (!tier || !TIER_ORDER.includes(tier)) {
+      return json({ error: `tier must be one of ${TIER_ORDER.join(', ')}` }, 400);
+    }
+
+    const entryHashes = await this.state.storage.get<Record<string, string>>('entryHashes');
+    if (!entryHashes) {
+      return json({ error: 'No entries yet; run /api/start first' }, 409);
+    }
+
+    const lineage = await buildLineage(entryHashes, '', new Set());
+    const ranges = lineage[tier].map((job) => job.rangeStart);
+    if (range && tier !== 'synthesis' && !ranges.includes(range)) {
+      return json({ error: `No ${tier} aggregate for ${range}`, ranges }, 404);
+    }
+
+    const state = this.newRun({ tier, range: tier === 'synthesis' ? null : range });
+    await this.clearJobs();
+    await this.startTier(state, tier);
+    await this.saveState(state);
+
+    return json({ status: 'started', runId: state.runId, tier, jobs: state.tierJobs });
+  }
+
+  /**
+   * Re-extract one day and rebuild the aggregates that include it:
+   * /api/rerun?date=YYYY-MM-DD. Every entry of the day is re-extracted,
+   * forced; aggregates whose inputs come out unchanged are skipped by the
+   * aggregator.
+   */
+  private async rerunEntry(url: URL): Promise<Response> {
+    const date = url.searchParams.get('date');
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return json({ error: 'date must be YYYY-MM-DD' }, 400);
+    }
+
+    const manifestJson = await getObject(this.env.JOURNALS_BUCKET, 'manifest.json', this.env.ENCRYPTION_KEY);
+    const manifest = manifestJson ? (JSON.parse(manifestJson) as Manifest) : null;
+    const entries = manifest?.entries.filter((e) => e.date === date) ?? [];
+    if (entries.length === 0) {
+      return json({ error: `No manifest entry for ${date}` }, 404);
+    }
+
+    // Drop ids the day no longer has (e.g. a second entry merged away)
+    const stored = (await this.state.storage.get<Record<string, string>>('entryHashes')) ?? {};
+    const entryHashes = {
+      ...Object.fromEntries(Object.entries(stored).filter(([id]) => getEntryDate(id) !== date)),
+      ...(await getEntryHashes(entries)),
+    };
+    await this.state.storage.put('entryHashes', entryHashes);
+    await deleteOrphanExtractions(
+      this.env.DB,
+      entries.map((entry) => entry.entryId ?? entry.date),
+      date
+    );
+
+    const state = this.newRun({ date });
+    const jobs = entries.map((entry) => ({ ...extractionJob(entry, state.runId ?? ''), force: true }));
+    await this.clearJobs();
+    await this.dispatch(jobs);
+    state.phase = 'extracting';
+    state.totalEntries = jobs.length;
+    await this.saveState(state);
+
+    console.log(`Re-running ${date} (${jobs.length} entries)`);
+    return json({ status: 'started', runId: state.runId, date, entries: jobs.length });
+  }
+
+  private newRun(target: RunTarget | null): PipelineState {
+    return {
+      ...IDLE_STATE,
+      runId: crypto.randomUUID(),
+      target,
+      startedAt: new Date().toISOString(),
+    };
+  }
+
   private async resetPipeline(): Promise<Response> {
     await this.state.storage.deleteAll();
 
-    return new Response(JSON.stringify({ status: 'reset' }), {
-      headers: { 'Content-Type': 'application/json' },
+    return json({ status: 'reset' });
+  }
+
+  /**
+   * Record a finished job and advance to the next tier once the current
+   * one has all of its inputs. Dead-lettered jobs (`failed`) count the same
+   * way, so one bad entry can't stall the run. Duplicate deliveries are
+   * ignored.
+   */
+  private async completeJob(job: PipelineJob, failed = false): Promise<Response> {
+    const jobId = getJobId(job);
+    const doneKey = `done:${jobId}`;
+    if (await this.state.storage.get<boolean>(doneKey)) {
+      return json({ status: 'duplicate' });
+    }
+    if (failed) {
+      // Only dead letters of jobs this run still expects count towards it
+      const pending = await this.state.storage.get<PipelineJob>(`${JOB_PREFIX}${jobId}`);
+      if (pending?.runId !== job.runId) {
+        return json({ status: 'ignored' });
+      }
+    }
+    await this.state.storage.put(doneKey, true);
+    await this.state.storage.delete(`${JOB_PREFIX}${jobId}`);
+
+    const state = await this.loadState();
+    if (failed) {
+      state.failedJobs++;
+    }
+
+    if (job.type === 'extraction' && state.phase === 'extracting') {
+      state.processedEntries++;
+      this.broadcast({
+        event: 'extraction',
+        data: {
+          date: job.entryId ?? job.date,
+          processed: state.processedEntries,
+          total: state.totalEntries,
+          failed,
+        },
+      });
+      if (state.processedEntries >= state.totalEntries && !state.paused) {
+        await this.startTier(state, this.firstTier(state));
+      }
+    } else if (
+      job.type === 'aggregation' &&
+      state.phase === 'aggregating' &&
+      job.tier === state.currentTier
+    ) {
+      state.tierCompleted++;
+      this.broadcast({
+        event: 'tier',
+        data: {
+          tier: job.tier,
+          range: job.rangeStart,
+          completed: state.tierCompleted,
+          total: state.tierJobs,
+          failed,
+        },
+      });
+      if (state.tierCompleted >= state.tierJobs && !state.paused) {
+        await this.startTier(state, this.tierAfter(state, job.tier));
+      }
+    }
+
+    await this.saveState(state);
+    await this.broadcastCost(state);
+    return json({ status: 'recorded' });
+  }
+
+  /**
+   * Whether a consumer should run a job: it must still be expected by the
+   * current run, and the run must not be paused
+   */
+  private async admitJob(job: PipelineJob): Promise<Response> {
+    const [state, pending] = await Promise.all([
+      this.loadState(),
+      this.state.storage.get<PipelineJob>(`${JOB_PREFIX}${getJobId(job)}`),
+    ]);
+    return json({ admit: !state.paused && pending?.runId === job.runId });
+  }
+
+  /**
+   * Enqueue the stale jobs for a tier, skipping tiers where every aggregate
+   * is up to date. Targeted runs enqueue only their aggregates: the tier run
+   * forced, those covering a re-run date left to the aggregator's own input
+   * check. Passing null marks the pipeline complete.
+   */
+  private async startTier(state: PipelineState, tier: AggregationTier | null): Promise<void> {
+    const entryHashes =
+      (await this.state.storage.get<Record<string, string>>('entryHashes')) ?? {};
+    // Rebuilt per tier so failures in the previous tier are taken into account
+    const failed = await getFailedJobs(this.env.DB);
+    const lineage = await buildLineage(
+      entryHashes,
+      state.runId ?? '',
+      new Set(failed.map((job) => job.jobId))
+    );
+
+    while (tier) {
+      const jobs = await this.selectJobs(state.target, lineage[tier]);
+      if (jobs.length > 0) {
+        await this.dispatch(jobs);
+        state.phase = 'aggregating';
+        state.currentTier = tier;
+        state.tierJobs = jobs.length;
+        state.tierCompleted = 0;
+        console.log(
+          `Starting ${tier} tier: ${jobs.length} of ${lineage[tier].length} stale, enqueued`
+        );
+        return;
+      }
+      console.log(`Skipping ${tier} tier: all ${lineage[tier].length} up to date`);
+      tier = this.tierAfter(state, tier);
+    }
+
+    state.phase = 'complete';
+    state.currentTier = null;
+    state.completedAt = new Date().toISOString();
+    console.log(
+      state.failedJobs > 0
+        ? `Pipeline complete with ${state.failedJobs} failed jobs (see /api/failures)`
+        : 'Pipeline complete'
+    );
+
+    try {
+      await exportDashboardData(this.env);
+    } catch (error) {
+      // The export can be retried via /api/export; don't fail the final job
+      console.error('Export after completion failed:', error);
+    }
+  }
+
+  private async selectJobs(
+    target: RunTarget | null,
+    jobs: AggregationJob[]
+  ): Promise<AggregationJob[]> {
+    if (!target) {
+      return filterStale(this.env.CACHE, jobs);
+    }
+    if ('date' in target) {
+      return jobs.filter((job) => coversDate(job, target.date));
+    }
+    return jobs
+      .filter((job) => target.range === null || job.rangeStart === target.range)
+      .map((job) => ({ ...job, force: true }));
+  }
+
+  private firstTier(state: PipelineState): AggregationTier | null {
+    return state.target && 'tier' in state.target ? state.target.tier : TIER_ORDER[0];
+  }
+
+  /**
+   * The tier to start after `tier` finishes; a single-tier run stops there
+   */
+  private tierAfter(state: PipelineState, tier: AggregationTier): AggregationTier | null {
+    return state.target && 'tier' in state.target ? null : nextTier(tier);
+  }
+
+  /**
+   * Track jobs as expected by the current run, then enqueue each on its queue
+   */
+  private async dispatch(jobs: PipelineJob[]): Promise<void> {
+    // storage.put accepts at most 128 keys per call
+    for (let i = 0; i < jobs.length; i += 128) {
+      await this.state.storage.put(
+        Object.fromEntries(
+          jobs.slice(i, i + 128).map((job) => [`${JOB_PREFIX}${getJobId(job)}`, job])
+        )
+      );
+    }
+    await markJobsPending(this.env.DB, jobs);
+    await enqueueAll(
+      this.env.EXTRACTION_QUEUE,
+      jobs.filter((job) => job.type === 'extraction')
+    );
+    await enqueueAll(
+      this.env.AGGREGATION_QUEUE,
+      jobs.filter((job) => job.type === 'aggregation')
+    );
+  }
+
+  /**
+   * Keep a job that stopped before running (e.g. over budget) for the next
+   * resume, marked pending rather than running
+   */
+  private async holdJob(job: PipelineJob): Promise<void> {
+    await this.state.storage.put(`${JOB_PREFIX}${getJobId(job)}`, job);
+    await markJobsPending(this.env.DB, [job]);
+  }
+
+  /**
+   * Reserve a call's estimated cost if the run's recorded spend, the calls
+   * still in flight and this one fit the budget. Other requests wait until
+   * the check is done, so two consumers can't both take the last of it.
+   */
+  private reserveBudget(
+    runId: string,
+    estimateUsd: number
+  ): Promise<{ ok: boolean; spentUsd: number }> {
+    return this.state.blockConcurrencyWhile(async () => {
+      const budget = getBudget(this.env);
+      const reserved = this.reservedUsd.get(runId) ?? 0;
+      const spentUsd = await getRunCost(this.env.DB, runId);
+      if (budget !== null && spentUsd + reserved + estimateUsd > budget) {
+        return { ok: false, spentUsd };
+      }
+      this.reservedUsd.set(runId, reserved + estimateUsd);
+      return { ok: true, spentUsd };
     });
   }
+
+  private releaseBudget(runId: string, estimateUsd: number): void {
+    const remaining = (this.reservedUsd.get(runId) ?? 0) - estimateUsd;
+    if (remaining > 0) {
+      this.reservedUsd.set(runId, remaining);
+    } else {
+      this.reservedUsd.delete(runId);
+    }
+  }
+
+  private async loadState(): Promise<PipelineState> {
+    const state = await this.state.storage.get<PipelineState>('pipeline');
+    return state ? { ...IDLE_STATE, ...state } : { ...IDLE_STATE };
+  }
+
+  private async saveState(state: PipelineState): Promise<void> {
+    await this.state.storage.put('pipeline', state);
+
+    const { runId, phase, currentTier, paused, pauseReason, failedJobs } = state;
+    const key = JSON.stringify([runId, phase, currentTier, paused]);
+    if (key !== this.lastPhase) {
+      this.lastPhase = key;
+      this.broadcast({
+        event: 'phase',
+        data: { runId, phase, currentTier, paused, pauseReason, failedJobs },
+      });
+    }
+  }
+
+  // ==========================================================================
+  // Progress stream
+  // ==========================================================================
+
+  /**
+   * Server-Sent Events response that receives every ProgressEvent until the
+   * client disconnects
+   */
+  private async openStream(): Promise<Response> {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    this.streams.add(writer);
+
+    if (!this.keepalive) {
+      this.keepalive = setInterval(() => {
+        for (const stream of this.streams) this.write(stream, ': keepalive\n\n');
+      }, KEEPALIVE_INTERVAL_MS);
+    }
+
+    this.send(writer, { event: 'state', data: await this.loadState() });
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  }
+
+  private broadcast(event: ProgressEvent): void {
+    for (const writer of this.streams) this.send(writer, event);
+  }
+
+  /**
+   * Running spend for the run; skipped when nobody is listening
+   */
+  private async broadcastCost(state: PipelineState): Promise<void> {
+    if (this.streams.size === 0 || !state.runId) return;
+    this.broadcast({
+      event: 'cost',
+      data: {
+        runId: state.runId,
+        costUsd: await getRunCost(this.env.DB, state.runId),
+        budgetUsd: getBudget(this.env),
+      },
+    });
+  }
+
+  private send(writer: WritableStreamDefaultWriter<Uint8Array>, event: ProgressEvent): void {
+    this.write(writer, `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  }
+
+  private write(writer: WritableStreamDefaultWriter<Uint8Array>, chunk: string): void {
+    // A failed write means the client went away
+    writer.write(new TextEncoder().encode(chunk)).catch(() => this.closeStream(writer));
+  }
+
+  private closeStream(writer: WritableStreamDefaultWriter<Uint8Array>): void {
+    this.streams.delete(writer);
+    writer.abort().catch(() => {});
+    if (this.streams.size === 0 && this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+  }
+
+  /**
+   * Forget completions and expected jobs from the previous run. Returns how
+   * many jobs were still expected.
+   */
+  private async clearJobs(): Promise<number> {
+    const done = await this.state.storage.list({ prefix: 'done:' });
+    const pending = await this.state.storage.list({ prefix: JOB_PREFIX });
+    const keys = [...done.keys(), ...pending.keys()];
+    // storage.delete accepts at most 128 keys per call
+    for (let i = 0; i < keys.length; i += 128) {
+      await this.state.storage.delete(keys.slice(i, i + 128));
+    }
+    return pending.size;
+  }
+}
+
+// ============================================================================
+// Worker-side helpers
+// ============================================================================
+
+export function getCoordinator(env: Env): DurableObjectStub {
+  const id = env.COORDINATOR.idFromName('main');
+  return env.COORDINATOR.get(id);
+}
+
+/**
+ * Tell the coordinator a queue job finished so it can track progress
+ */
+export async function notifyJobComplete(env: Env, job: PipelineJob): Promise<void> {
+  await getCoordinator(env).fetch('https://coordinator/internal/complete', {
+    method: 'POST',
+    body: JSON.stringify(job),
+  });
+}
+
+/**
+ * Tell the coordinator a job ran out of retries, so the run counts it as
+ * failed and moves on instead of waiting for it
+ */
+export async function notifyJobDeadLettered(env: Env, job: PipelineJob): Promise<void> {
+  await getCoordinator(env).fetch('https://coordinator/internal/dead', {
+    method: 'POST',
+    body: JSON.stringify(job),
+  });
+}
+
+/**
+ * Report a failed attempt to /api/stream listeners
+ */
+export async function notifyJobFailed(
+  env: Env,
+  job: PipelineJob,
+  error: string,
+  attempt: number
+): Promise<void> {
+  await getCoordinator(env).fetch('https://coordinator/internal/failed', {
+    method: 'POST',
+    body: JSON.stringify({ job, error, attempt }),
+  });
+}
+
+/**
+ * Ask the coordinator whether a queued job should still run
+ */
+export async function admitJob(env: Env, job: PipelineJob): Promise<boolean> {
+  const response = await getCoordinator(env).fetch('https://coordinator/internal/admit', {
+    method: 'POST',
+    body: JSON.stringify(job),
+  });
+  return (await response.json<{ admit: boolean }>()).admit;
+}
+
+/**
+ * Rate limiter backed by the coordinator's shared buckets
+ */
+export function getRateLimiter(env: Env): RateLimiter {
+  const coordinator = getCoordinator(env);
+  return {
+    async acquire(tokens) {
+      for (;;) {
+        const response = await coordinator.fetch('https://coordinator/internal/acquire', {
+          method: 'POST',
+          body: JSON.stringify({ tokens }),
+        });
+        const { waitMs } = await response.json<{ waitMs: number }>();
+        if (waitMs <= 0) return;
+        // Jittered so waiting consumers don't all ask again at once
+        await new Promise((resolve) => setTimeout(resolve, withJitter(waitMs)));
+      }
+    },
+    async backoff(delayMs) {
+      await coordinator.fetch('https://coordinator/internal/backoff', {
+        method: 'POST',
+        body: JSON.stringify({ delayMs }),
+      });
+    },
+  };
+}
+
+/**
+ * Budget ledger backed by the coordinator's reservations
+ */
+export function getBudgetLedger(env: Env): BudgetLedger {
+  const coordinator = getCoordinator(env);
+  return {
+    async reserve(runId, estimateUsd) {
+      const response = await coordinator.fetch('https://coordinator/internal/reserve', {
+        method: 'POST',
+        body: JSON.stringify({ runId, estimateUsd }),
+      });
+      return response.json<{ ok: boolean; spentUsd: number }>();
+    },
+    async release(runId, estimateUsd) {
+      await coordinator.fetch('https://coordinator/internal/release', {
+        method: 'POST',
+        body: JSON.stringify({ runId, estimateUsd }),
+      });
+    },
+  };
+}
+
+/**
+ * Stop the coordinator from advancing to further tiers. `job` is the one
+ * that could not run; it is kept for resume.
+ */
+export async function pausePipeline(env: Env, reason: string, job?: PipelineJob): Promise<void> {
+  await getCoordinator(env).fetch('https://coordinator/internal/pause', {
+    method: 'POST',
+    body: JSON.stringify({ reason, job }),
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function extractionJob(entry: ManifestEntry, runId: string): ExtractionJob {
+  return {
+    type: 'extraction',
+    runId,
+    entryId: entry.entryId,
+    date: entry.date,
+    r2Key: entry.r2Key,
+    wordCount: entry.wordCount,
+    contentHash: entry.contentHash,
+    metadata: entry.metadata,
+  };
+}
+
+/**
+ * Extraction input hash per entry id, the leaves of the aggregate lineage
+ */
+async function getEntryHashes(entries: ManifestEntry[]): Promise<Record<string, string>> {
+  return Object.fromEntries(
+    await Promise.all(
+      entries.map(async (entry) => [
+        entry.entryId ?? entry.date,
+        await getExtractionInputHash(entry),
+      ])
+    )
+  );
+}
+
+function nextTier(tier: AggregationTier): AggregationTier | null {
+  return TIER_ORDER[TIER_ORDER.indexOf(tier) + 1] ?? null;
+}
+
+async function enqueueAll<T>(queue: Queue, jobs: T[]): Promise<void> {
+  for (let i = 0; i < jobs.length; i += QUEUE_BATCH_LIMIT) {
+    await queue.sendBatch(jobs.slice(i, i + QUEUE_BATCH_LIMIT).map((body) => ({ body })));
+  }
 }
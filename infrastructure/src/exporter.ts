@@ -8,24 +8,101 @@
  */
 
 import type { Env } from './index';
+import type { DashboardData } from './schemas/types';
+import {
+  getAllExtractions,
+  getAllWeeklySummaries,
+  getAllMonthlySummaries,
+  getAllQuarterlyNotepads,
+  getSynthesis,
+} from './lib/d1';
+import { getObject, putObject } from './lib/r2';
+import { hashContent } from './lib/cache';
+import { getProvider } from './lib/providers';
+import { EXTRACTION_PROMPT_VERSION } from './prompts/extraction';
+import { WEEKLY_PROMPT_VERSION } from './prompts/weekly';
+import { MONTHLY_PROMPT_VERSION } from './prompts/monthly';
+import { QUARTERLY_PROMPT_VERSION } from './prompts/quarterly';
+import { SYNTHESIS_PROMPT_VERSION } from './prompts/synthesis';
 
-interface DashboardData {
+export const DASHBOARD_DATA_KEY = 'dashboard-data.json';
+
+export interface ExportResult {
+  key: string;
   generatedAt: string;
-  synthesis: unknown;
-  quarterlyNotepads: unknown[];
-  monthlySummaries: unknown[];
-  weeklySummaries: unknown[];
-  extractions: unknown[];
+  contentHash: string;
+  counts: {
+    extractions: number;
+    weeklySummaries: number;
+    monthlySummaries: number;
+    quarterlyNotepads: number;
+    synthesis: boolean;
+  };
 }
 
-export async function exportDashboardData(env: Env): Promise<void> {
-  // TODO: Implement export logic
-  // 1. Query synthesis table
-  // 2. Query quarterly_notepads table
-  // 3. Query monthly_summaries table
-  // 4. Query weekly_summaries table
+export async function exportDashboardData(env: Env): Promise<ExportResult> {
+  console.log('Exporting dashboard data...');
+
+  // 1-4. Query every tier
+  const [synthesis, quarterlyNotepads, monthlySummaries, weeklySummaries, extractions] =
+    await Promise.all([
+      getSynthesis(env.DB),
+      getAllQuarterlyNotepads(env.DB),
+      getAllMonthlySummaries(env.DB),
+      getAllWeeklySummaries(env.DB),
+      getAllExtractions(env.DB),
+    ]);
+
+  // Record which inputs and prompts produced this export
+  const manifest = await getObject(env.JOURNALS_BUCKET, 'manifest.json', env.ENCRYPTION_KEY);
+
   // 5. Build dashboard-data.json
-  // 6. Upload to R2
+  const generatedAt = new Date().toISOString();
+  const data: DashboardData = {
+    generatedAt,
+    metadata: {
+      manifestHash: manifest ? await hashContent(manifest) : null,
+      model: getProvider(env).model,
+      promptVersions: {
+        extraction: EXTRACTION_PROMPT_VERSION,
+        weekly: WEEKLY_PROMPT_VERSION,
+        monthly: MONTHLY_PROMPT_VERSION,
+        quarterly: QUARTERLY_PROMPT_VERSION,
+        synthesis: SYNTHESIS_PROMPT_VERSION,
+      },
+    },
+    synthesis,
+    quarterlyNotepads,
+    monthlySummaries,
+    weeklySummaries,
+    extractions,
+  };
 
-  console.log('Exporting dashboard data...');
+  // 6. Upload to R2 (encrypted when ENCRYPTION_KEY is set), with a hash of
+  //    the plaintext so downloads can be verified after decryption
+  const content = JSON.stringify(data);
+  const contentHash = await hashContent(content);
+  await putObject(
+    env.OUTPUTS_BUCKET,
+    DASHBOARD_DATA_KEY,
+    content,
+    'application/json',
+    { 'content-hash': contentHash },
+    env.ENCRYPTION_KEY
+  );
+
+  console.log(`Exported ${extractions.length} extractions to ${DASHBOARD_DATA_KEY}`);
+
+  return {
+    key: DASHBOARD_DATA_KEY,
+    generatedAt,
+    contentHash,
+    counts: {
+      extractions: extractions.length,
+      weeklySummaries: weeklySummaries.length,
+      monthlySummaries: monthlySummaries.length,
+      quarterlyNotepads: quarterlyNotepads.length,
+      synthesis: synthesis !== null,
+    },
+  };
 }
@@ -2,37 +2,135 @@
  * Extraction Worker
  *
  * Processes extraction jobs from the queue:
- * 1. Fetch markdown from R2
+ * 1. Skip entries whose content, metadata and prompt are unchanged since the
+ *    last run (unless forced)
  * 2. Check cache for existing extraction
- * 3. Call DeepSeek v3.2 via OpenRouter
- * 4. Parse structured JSON response
- * 5. Store in D1 and cache
+ * 3. Fetch markdown from R2
+ * 4. Call the configured LLM provider
+ * 5. Parse structured JSON response
+ * 6. Store in D1 and cache
  */
 
 import type { Env } from './index';
-import type { JournalExtraction } from './schemas/types';
-import { callOpenRouter } from './lib/openrouter';
-import { getExtractionPrompt } from './prompts/extraction';
-
-interface ExtractionJob {
-  type: 'extraction';
-  date: string;
-  r2Key: string;
-  contentHash: string;
-}
+import type { ExtractionJob, JournalExtraction, ManifestEntry } from './schemas/types';
+import type { RateLimiter } from './lib/rate-limiter';
+import type { BudgetLedger } from './lib/usage';
+import { validateJournalExtraction } from './schemas/validators';
+import { parseAndValidate } from './lib/openrouter';
+import { callMetered } from './lib/usage';
+import { getObject } from './lib/r2';
+import { getDayOfWeek } from './lib/dates';
+import {
+  storeExtraction,
+  getJobId,
+  isJobUnchanged,
+  markJobRunning,
+  markJobDone,
+} from './lib/d1';
+import { hashContent, getCachedExtraction, setCachedExtraction } from './lib/cache';
+import {
+  EXTRACTION_PROMPT_VERSION,
+  getExtractionPrompt,
+  getExtractionSystemPrompt,
+} from './prompts/extraction';
 
 export async function handleExtraction(
-  message: Message,
-  env: Env
+  job: ExtractionJob,
+  env: Env,
+  limiter: RateLimiter,
+  ledger: BudgetLedger
 ): Promise<void> {
-  const job = message.body as ExtractionJob;
+  const jobId = getJobId(job);
+  const entryId = job.entryId ?? job.date;
+
+  // 1. Skip if these exact inputs have already been extracted (unless forced)
+  const inputHash = await getExtractionInputHash(job);
+  if (!job.force && (await isJobUnchanged(env.DB, jobId, inputHash))) {
+    console.log(`Unchanged: ${entryId}`);
+    return;
+  }
+  await markJobRunning(env.DB, jobId, 'extraction');
+
+  // 2. Check KV cache for existing extraction
+  const cached = job.force
+    ? null
+    : await getCachedExtraction(env.CACHE, job.date, inputHash);
+  if (cached) {
+    console.log(`Cache hit: ${entryId}`);
+    await storeExtraction(env.DB, job.date, { ...cached, ...getRecordedValues(job) }, entryId);
+    await markJobDone(env.DB, jobId, 'extraction', inputHash, jobId);
+    return;
+  }
+
+  // 3. Cache miss - fetch from R2
+  const content = await getObject(env.JOURNALS_BUCKET, job.r2Key, env.ENCRYPTION_KEY);
+  if (!content) {
+    throw new Error(`Journal entry not found in R2: ${job.r2Key}`);
+  }
+
+  // 4. Call the configured LLM provider with extraction prompt (metered)
+  const response = await callMetered(
+    env,
+    { runId: job.runId, jobId, jobType: 'extraction' },
+    [
+      { role: 'system', content: getExtractionSystemPrompt() },
+      { role: 'user', content: getExtractionPrompt(job.date, content, job.metadata) },
+    ],
+    limiter,
+    ledger
+  );
+
+  // 5. Parse and validate response (date, word count and any frontmatter
+  //    scores come from the manifest)
+  const result = parseAndValidate(response, (input) =>
+    validateJournalExtraction(input, {
+      coerce: true,
+      overrides: {
+        date: job.date,
+        day_of_week: getDayOfWeek(job.date),
+        word_count: job.wordCount,
+        ...getRecordedValues(job),
+      },
+    })
+  );
+  if (!result.value) {
+    // Thrown so the queue retries (the model may do better next time) and
+    // dead-letters the job if it never does
+    throw new Error(`Invalid extraction: ${result.errors.join('; ')}`);
+  }
+  if (result.repairs.length > 0) {
+    console.log(`Repaired extraction for ${entryId}: ${result.repairs.join('; ')}`);
+  }
+
+  // 6. Store in D1 and KV cache
+  await storeExtraction(env.DB, job.date, result.value, entryId);
+  await setCachedExtraction(env.CACHE, job.date, inputHash, result.value);
+  await markJobDone(env.DB, jobId, 'extraction', inputHash, jobId);
 
-  // TODO: Implement extraction logic
-  // 1. Check KV cache for existing extraction
-  // 2. If cache miss, fetch from R2
-  // 3. Call OpenRouter with extraction prompt
-  // 4. Parse and validate response
-  // 5. Store in D1 and KV cache
+  console.log(`Extracted ${entryId}`);
+}
 
-  console.log(`Processing extraction for ${job.date}`);
+/**
+ * Hash of everything an extraction is built from: the entry's content, its
+ * metadata (part of the prompt) and the prompt version
+ */
+export async function getExtractionInputHash(
+  entry: Pick<ManifestEntry, 'contentHash' | 'metadata'>
+): Promise<string> {
+  return hashContent(
+    JSON.stringify([EXTRACTION_PROMPT_VERSION, entry.contentHash, entry.metadata ?? null])
+  );
+}
+
+/**
+ * Extraction fields the author recorded in frontmatter, which replace the
+ * model's inferred values
+ */
+function getRecordedValues(job: ExtractionJob): Partial<JournalExtraction> {
+  const { mood, energy, sleepHours } = job.metadata ?? {};
+  return {
+    ...(mood !== undefined && { mood_score: mood }),
+    ...(energy !== undefined && { energy_level: energy }),
+    ...(sleepHours !== undefined && { sleep_mentioned: true }),
+  };
 }
@@ -5,9 +5,10 @@
  * It exports the Durable Object class and handles HTTP requests.
  */
 
-import { ReflectionsCoordinator } from './coordinator';
-import { handleExtraction } from './extractor';
-import { handleAggregation } from './aggregator';
+import { ReflectionsCoordinator, getCoordinator } from './coordinator';
+import { handleQueueBatch } from './queue';
+import { authorize, getRequiredScope } from './lib/auth';
+import { recordAudit } from './lib/d1';
 
 export { ReflectionsCoordinator };
 
@@ -31,9 +32,20 @@ export interface Env {
 
   // Secrets (set via wrangler secret)
   OPENROUTER_API_KEY: string;
+  LLM_API_KEY?: string;
+  API_READ_TOKEN?: string; // Bearer token for read-only routes
+  API_CONTROL_TOKEN?: string; // Bearer token for every route
+  ENCRYPTION_KEY?: string; // Base64 AES-256 master key; unset stores R2 objects in plaintext
 
   // Variables
   ENVIRONMENT: string;
+  LLM_PROVIDER?: string; // 'openrouter' (default) | 'local' | 'mock'
+  LLM_BASE_URL?: string;
+  LLM_MODEL?: string;
+  BUDGET_USD?: string; // Per-run spend cap; unset for no cap
+  RATE_LIMIT_RPM?: string; // Model requests per minute across all consumers
+  RATE_LIMIT_TPM?: string; // Model tokens (prompt + completion) per minute
+  QUEUE_CONCURRENCY?: string; // Messages processed in parallel per batch
 }
 
 export default {
@@ -42,9 +54,35 @@ export default {
 
     // Route to coordinator for pipeline management
     if (url.pathname.startsWith('/api/')) {
-      const id = env.COORDINATOR.idFromName('main');
-      const coordinator = env.COORDINATOR.get(id);
-      return coordinator.fetch(request);
+      const auth = await authorize(request, env);
+      if (!auth.ok) {
+        return new Response(JSON.stringify({ error: auth.error }), {
+          status: auth.status,
+          headers: {
+            'Content-Type': 'application/json',
+            'WWW-Authenticate': 'Bearer',
+          },
+        });
+      }
+
+      const response = await getCoordinator(env).fetch(request);
+
+      // Audit every control route, including refused transitions
+      if (getRequiredScope(url.pathname) === 'control') {
+        ctx.waitUntil(
+          recordAudit(env.DB, {
+            action: url.pathname,
+            method: request.method,
+            params: url.search || null,
+            scope: auth.scope,
+            status: response.status,
+            ip: request.headers.get('CF-Connecting-IP'),
+            userAgent: request.headers.get('User-Agent'),
+          }).catch((error) => console.error('Audit log write failed:', error))
+        );
+      }
+
+      return response;
     }
 
     return new Response('Reflections Pipeline API', {
@@ -52,19 +90,7 @@ export default {
     });
   },
 
-  async queue(batch: MessageBatch, env: Env, ctx: ExecutionContext): Promise<void> {
-    // Determine queue type from batch
-    // TODO: Implement queue routing based on message metadata
-    for (const message of batch.messages) {
-      const data = message.body as { type: string };
-
-      if (data.type === 'extraction') {
-        await handleExtraction(message, env);
-      } else if (data.type === 'aggregation') {
-        await handleAggregation(message, env);
-      }
-
-      message.ack();
-    }
+  async queue(batch: MessageBatch<unknown>, env: Env, ctx: ExecutionContext): Promise<void> {
+    await handleQueueBatch(batch, env);
   },
 };
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { Env } from '../index';
+import { authorize, getRequiredScope } from './auth';
+
+const env = { API_READ_TOKEN: 'read-secret', API_CONTROL_TOKEN: 'control-secret' } as Env;
+
+function request(pathname: string, authorization?: string): Request {
+  return new Request(`https://worker${pathname}`, {
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+}
+
+describe('getRequiredScope', () => {
+  it('requires control for every route not listed as read', () => {
+    expect(getRequiredScope('/api/status')).toBe('read');
+    expect(getRequiredScope('/api/failures')).toBe('read');
+    expect(getRequiredScope('/api/start')).toBe('control');
+    expect(getRequiredScope('/api/failures/replay')).toBe('control');
+  });
+});
+
+describe('authorize', () => {
+  it('rejects a request without a bearer token', async () => {
+    expect(await authorize(request('/api/status'), env)).toEqual({
+      ok: false,
+      status: 401,
+      error: 'Missing bearer token',
+    });
+    expect(await authorize(request('/api/status', 'Basic read-secret'), env)).toMatchObject({
+      status: 401,
+      error: 'Missing bearer token',
+    });
+  });
+
+  it('rejects a wrong token', async () => {
+    expect(await authorize(request('/api/status', 'Bearer read-secre'), env)).toEqual({
+      ok: false,
+      status: 401,
+      error: 'Invalid token',
+    });
+  });
+
+  it('lets a read token reach read routes only', async () => {
+    expect(await authorize(request('/api/status', 'Bearer read-secret'), env)).toEqual({
+      ok: true,
+      scope: 'read',
+    });
+    expect(await authorize(request('/api/start', 'Bearer read-secret'), env)).toEqual({
+      ok: false,
+      status: 403,
+      error: 'Token lacks control scope',
+    });
+  });
+
+  it('lets a control token reach every route', async () => {
+    for (const pathname of ['/api/status', '/api/start', '/api/reset']) {
+      expect(await authorize(request(pathname, 'bearer  control-secret '), env)).toEqual({
+        ok: true,
+        scope: 'control',
+      });
+    }
+  });
+
+  it('accepts no token for a scope whose secret is unset', async () => {
+    const readOnly = { API_READ_TOKEN: 'read-secret' } as Env;
+
+    expect(await authorize(request('/api/status', 'Bearer '), readOnly)).toMatchObject({
+      status: 401,
+    });
+    expect(await authorize(request('/api/start', 'Bearer undefined'), readOnly)).toMatchObject({
+      status: 401,
+      error: 'Invalid token',
+    });
+  });
+});
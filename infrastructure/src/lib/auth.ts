@@ -0,0 +1,72 @@
+/**
+ * API Authentication
+ *
+ * Every /api/* request needs `Authorization: Bearer <token>`. Tokens are
+ * wrangler secrets, one per scope:
+ * - API_READ_TOKEN: status, the progress stream and failure listings
+ * - API_CONTROL_TOKEN: everything, including routes that spend money or
+ *   delete state
+ * A scope whose secret is unset accepts no token (fail closed).
+ */
+
+import type { Env } from '../index';
+import { hashContent } from './cache';
+
+export type Scope = 'read' | 'control';
+
+// Routes not listed here require control
+const READ_ROUTES = new Set(['/api/status', '/api/stream', '/api/failures']);
+
+export type AuthResult =
+  | { ok: true; scope: Scope }
+  | { ok: false; status: 401 | 403; error: string };
+
+export function getRequiredScope(pathname: string): Scope {
+  return READ_ROUTES.has(pathname) ? 'read' : 'control';
+}
+
+/**
+ * Check the bearer token against the scope the route needs
+ */
+export async function authorize(request: Request, env: Env): Promise<AuthResult> {
+  const header = request.headers.get('Authorization') ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return { ok: false, status: 401, error: 'Missing bearer token' };
+  }
+
+  const scope = await getTokenScope(match[1].trim(), env);
+  if (!scope) {
+    return { ok: false, status: 401, error: 'Invalid token' };
+  }
+
+  const required = getRequiredScope(new URL(request.url).pathname);
+  if (required === 'control' && scope !== 'control') {
+    return { ok: false, status: 403, error: 'Token lacks control scope' };
+  }
+
+  return { ok: true, scope };
+}
+
+async function getTokenScope(token: string, env: Env): Promise<Scope | null> {
+  if (env.API_CONTROL_TOKEN && (await tokensMatch(token, env.API_CONTROL_TOKEN))) {
+    return 'control';
+  }
+  if (env.API_READ_TOKEN && (await tokensMatch(token, env.API_READ_TOKEN))) {
+    return 'read';
+  }
+  return null;
+}
+
+/**
+ * Compare digests rather than the tokens themselves, so the time taken
+ * reveals nothing about how much of a guess was right
+ */
+async function tokensMatch(given: string, expected: string): Promise<boolean> {
+  const [a, b] = await Promise.all([hashContent(given), hashContent(expected)]);
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
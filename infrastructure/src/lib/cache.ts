@@ -17,8 +17,8 @@ export async function hashContent(content: string): Promise<string> {
     .join('');
 }
 
-export function extractionCacheKey(entryDate: string, contentHash: string): string {
-  return `extract:${entryDate}:${contentHash.slice(0, 16)}`;
+export function extractionCacheKey(entryDate: string, inputHash: string): string {
+  return `extract:${entryDate}:${inputHash.slice(0, 16)}`;
 }
 
 export function aggregationCacheKey(
@@ -32,9 +32,9 @@ export function aggregationCacheKey(
 export async function getCachedExtraction(
   cache: KVNamespace,
   date: string,
-  contentHash: string
+  inputHash: string
 ): Promise<JournalExtraction | null> {
-  const key = extractionCacheKey(date, contentHash);
+  const key = extractionCacheKey(date, inputHash);
   const cached = await cache.get(key, 'json');
   return cached as JournalExtraction | null;
 }
@@ -42,10 +42,10 @@ export async function getCachedExtraction(
 export async function setCachedExtraction(
   cache: KVNamespace,
   date: string,
-  contentHash: string,
+  inputHash: string,
   extraction: JournalExtraction
 ): Promise<void> {
-  const key = extractionCacheKey(date, contentHash);
+  const key = extractionCacheKey(date, inputHash);
   await cache.put(key, JSON.stringify(extraction), {
     expirationTtl: CACHE_TTL_SECONDS,
   });
@@ -10,25 +10,32 @@ import type {
   MonthlySummary,
   QuarterlyNotepad,
   TwoYearSynthesis,
+  PipelineJob,
 } from '../schemas/types';
+import { getEntrySequence } from './dates';
 
 // ============================================================================
 // Extractions
 // ============================================================================
 
+/**
+ * One row per entry; a day with several entries has one row per entryId
+ */
 export async function storeExtraction(
   db: D1Database,
   date: string,
-  extraction: JournalExtraction
+  extraction: JournalExtraction,
+  entryId: string = date
 ): Promise<void> {
   await db
     .prepare(
-      `INSERT OR REPLACE INTO extractions (id, date, day_of_week, extraction_json)
-       VALUES (?, ?, ?, ?)`
+      `INSERT OR REPLACE INTO extractions (id, date, sequence, day_of_week, extraction_json)
+       VALUES (?, ?, ?, ?, ?)`
     )
     .bind(
-      `extraction-${date}`,
+      `extraction-${entryId}`,
       date,
+      getEntrySequence(entryId),
       extraction.day_of_week,
       JSON.stringify(extraction)
     )
@@ -40,7 +47,7 @@ export async function getExtraction(
   date: string
 ): Promise<JournalExtraction | null> {
   const result = await db
-    .prepare('SELECT extraction_json FROM extractions WHERE date = ?')
+    .prepare('SELECT extraction_json FROM extractions WHERE date = ? ORDER BY sequence LIMIT 1')
     .bind(date)
     .first<{ extraction_json: string }>();
 
@@ -55,7 +62,7 @@ export async function getExtractionsInRange(
 ): Promise<JournalExtraction[]> {
   const results = await db
     .prepare(
-      'SELECT extraction_json FROM extractions WHERE date >= ? AND date <= ? ORDER BY date'
+      'SELECT extraction_json FROM extractions WHERE date >= ? AND date <= ? ORDER BY date, sequence'
     )
     .bind(startDate, endDate)
     .all<{ extraction_json: string }>();
@@ -63,6 +70,42 @@ export async function getExtractionsInRange(
   return results.results.map((r) => JSON.parse(r.extraction_json));
 }
 
+export async function getAllExtractions(db: D1Database): Promise<JournalExtraction[]> {
+  const results = await db
+    .prepare('SELECT extraction_json FROM extractions ORDER BY date, sequence')
+    .all<{ extraction_json: string }>();
+
+  return results.results.map((r) => JSON.parse(r.extraction_json));
+}
+
+/**
+ * Delete extractions (and their job status) for entries that are no longer
+ * in the manifest, e.g. merged into another entry or removed. With `date`,
+ * only that day is checked. Returns how many were deleted.
+ */
+export async function deleteOrphanExtractions(
+  db: D1Database,
+  entryIds: string[],
+  date?: string
+): Promise<number> {
+  const keep = new Set(entryIds.map((entryId) => `extraction-${entryId}`));
+  const rows = date
+    ? await db.prepare('SELECT id FROM extractions WHERE date = ?').bind(date).all<{ id: string }>()
+    : await db.prepare('SELECT id FROM extractions').all<{ id: string }>();
+  const orphans = rows.results.map((row) => row.id).filter((id) => !keep.has(id));
+
+  // D1 allows at most 100 bound parameters per statement
+  for (let i = 0; i < orphans.length; i += 100) {
+    const ids = orphans.slice(i, i + 100);
+    const placeholders = ids.map(() => '?').join(', ');
+    await db.batch([
+      db.prepare(`DELETE FROM extractions WHERE id IN (${placeholders})`).bind(...ids),
+      db.prepare(`DELETE FROM job_status WHERE job_id IN (${placeholders})`).bind(...ids),
+    ]);
+  }
+  return orphans.length;
+}
+
 // ============================================================================
 // Weekly Summaries
 // ============================================================================
@@ -104,6 +147,14 @@ export async function getWeeklySummariesForMonth(
   return results.results.map((r) => JSON.parse(r.summary_json));
 }
 
+export async function getAllWeeklySummaries(db: D1Database): Promise<WeeklySummary[]> {
+  const results = await db
+    .prepare('SELECT summary_json FROM weekly_summaries ORDER BY week_start')
+    .all<{ summary_json: string }>();
+
+  return results.results.map((r) => JSON.parse(r.summary_json));
+}
+
 // ============================================================================
 // Monthly Summaries
 // ============================================================================
@@ -146,6 +197,14 @@ export async function getMonthlySummariesForQuarter(
   return results.results.map((r) => JSON.parse(r.summary_json));
 }
 
+export async function getAllMonthlySummaries(db: D1Database): Promise<MonthlySummary[]> {
+  const results = await db
+    .prepare('SELECT summary_json FROM monthly_summaries ORDER BY month')
+    .all<{ summary_json: string }>();
+
+  return results.results.map((r) => JSON.parse(r.summary_json));
+}
+
 // ============================================================================
 // Quarterly Notepads
 // ============================================================================
@@ -202,6 +261,365 @@ export async function getSynthesis(
   return JSON.parse(result.synthesis_json);
 }
 
+// ============================================================================
+// Job Status
+// ============================================================================
+//
+// Lifecycle: pending (enqueued) → running → done | failed.
+// input_hash and result_id are only written on success, so they always
+// describe the inputs behind the stored result. A job whose current input
+// hash matches can be skipped.
+
+export type JobState = 'pending' | 'running' | 'done' | 'failed';
+
+export interface JobStatus {
+  jobId: string;
+  jobType: string;
+  status: JobState;
+  inputHash: string | null;
+  resultId: string | null;
+  error: string | null;
+  updatedAt: string;
+}
+
+interface JobStatusRow {
+  job_id: string;
+  job_type: string;
+  status: JobState;
+  input_hash: string | null;
+  result_id: string | null;
+  error: string | null;
+  updated_at: string;
+}
+
+export function getJobId(job: PipelineJob): string {
+  return job.type === 'extraction'
+    ? `extraction-${job.entryId ?? job.date}`
+    : `${job.tier}-${job.rangeStart}`;
+}
+
+export async function markJobsPending(db: D1Database, jobs: PipelineJob[]): Promise<void> {
+  const statement = db.prepare(
+    `INSERT INTO job_status (job_id, job_type, status)
+     VALUES (?, ?, 'pending')
+     ON CONFLICT(job_id) DO UPDATE SET
+       status = 'pending', error = NULL, updated_at = CURRENT_TIMESTAMP`
+  );
+  const statements = jobs.map((job) =>
+    statement.bind(getJobId(job), job.type === 'extraction' ? 'extraction' : job.tier)
+  );
+
+  // Keep each batch well under D1's per-request limits
+  for (let i = 0; i < statements.length; i += 100) {
+    await db.batch(statements.slice(i, i + 100));
+  }
+}
+
+export async function markJobRunning(
+  db: D1Database,
+  jobId: string,
+  jobType: string
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO job_status (job_id, job_type, status)
+       VALUES (?, ?, 'running')
+       ON CONFLICT(job_id) DO UPDATE SET
+         status = 'running', error = NULL, updated_at = CURRENT_TIMESTAMP`
+    )
+    .bind(jobId, jobType)
+    .run();
+}
+
+export async function markJobDone(
+  db: D1Database,
+  jobId: string,
+  jobType: string,
+  inputHash: string,
+  resultId: string
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT OR REPLACE INTO job_status
+         (job_id, job_type, status, input_hash, result_id, error, updated_at)
+       VALUES (?, ?, 'done', ?, ?, NULL, CURRENT_TIMESTAMP)`
+    )
+    .bind(jobId, jobType, inputHash, resultId)
+    .run();
+}
+
+/**
+ * Mark a job failed, keeping the hash and result of its last success
+ */
+export async function recordJobError(
+  db: D1Database,
+  jobId: string,
+  jobType: string,
+  error: string
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO job_status (job_id, job_type, status, error)
+       VALUES (?, ?, 'failed', ?)
+       ON CONFLICT(job_id) DO UPDATE SET
+         status = 'failed', error = excluded.error, updated_at = CURRENT_TIMESTAMP`
+    )
+    .bind(jobId, jobType, error)
+    .run();
+}
+
+export async function getJobStatus(db: D1Database, jobId: string): Promise<JobStatus | null> {
+  const row = await db
+    .prepare('SELECT * FROM job_status WHERE job_id = ?')
+    .bind(jobId)
+    .first<JobStatusRow>();
+
+  return row ? toJobStatus(row) : null;
+}
+
+/**
+ * True when the stored result was produced from exactly these inputs
+ */
+export async function isJobUnchanged(
+  db: D1Database,
+  jobId: string,
+  inputHash: string
+): Promise<boolean> {
+  const status = await getJobStatus(db, jobId);
+  return status?.inputHash === inputHash && status.resultId !== null;
+}
+
+export async function getFailedJobs(db: D1Database): Promise<JobStatus[]> {
+  const results = await db
+    .prepare("SELECT * FROM job_status WHERE status = 'failed' ORDER BY job_type, job_id")
+    .all<JobStatusRow>();
+
+  return results.results.map(toJobStatus);
+}
+
+function toJobStatus(row: JobStatusRow): JobStatus {
+  return {
+    jobId: row.job_id,
+    jobType: row.job_type,
+    status: row.status,
+    inputHash: row.input_hash,
+    resultId: row.result_id,
+    error: row.error,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ============================================================================
+// Dead Letters
+// ============================================================================
+
+export interface DeadLetter {
+  id: number;
+  queue: string;
+  jobId: string;
+  jobType: string;
+  job: PipelineJob;
+  error: string | null;
+  createdAt: string;
+  replayedAt: string | null;
+}
+
+interface DeadLetterRow {
+  id: number;
+  queue: string;
+  job_id: string;
+  job_type: string;
+  job_json: string;
+  error: string | null;
+  created_at: string;
+  replayed_at: string | null;
+}
+
+/**
+ * Capture a dead-lettered job with the last error recorded for it. A job
+ * is recorded once per run, so redelivered DLQ messages are no-ops.
+ */
+export async function recordDeadLetter(
+  db: D1Database,
+  queue: string,
+  job: PipelineJob
+): Promise<void> {
+  const jobId = getJobId(job);
+  const status = await getJobStatus(db, jobId);
+
+  await db
+    .prepare(
+      `INSERT INTO dead_letters (queue, job_id, run_id, job_type, job_json, error)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(job_id, run_id) DO NOTHING`
+    )
+    .bind(
+      queue,
+      jobId,
+      job.runId,
+      job.type === 'extraction' ? 'extraction' : job.tier,
+      JSON.stringify(job),
+      status?.error ?? null
+    )
+    .run();
+}
+
+/**
+ * Dead letters not yet replayed, oldest first. Pass ids to select specific ones.
+ */
+export async function getDeadLetters(db: D1Database, ids?: number[]): Promise<DeadLetter[]> {
+  const filter = ids ? `AND id IN (${ids.map(() => '?').join(', ')})` : '';
+  const results = await db
+    .prepare(`SELECT * FROM dead_letters WHERE replayed_at IS NULL ${filter} ORDER BY id`)
+    .bind(...(ids ?? []))
+    .all<DeadLetterRow>();
+
+  return results.results.map((row) => ({
+    id: row.id,
+    queue: row.queue,
+    jobId: row.job_id,
+    jobType: row.job_type,
+    job: JSON.parse(row.job_json),
+    error: row.error,
+    createdAt: row.created_at,
+    replayedAt: row.replayed_at,
+  }));
+}
+
+export async function markDeadLettersReplayed(db: D1Database, ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  await db
+    .prepare(
+      `UPDATE dead_letters SET replayed_at = CURRENT_TIMESTAMP
+       WHERE id IN (${ids.map(() => '?').join(', ')})`
+    )
+    .bind(...ids)
+    .run();
+}
+
+// ============================================================================
+// LLM Usage
+// ============================================================================
+
+export interface UsageRecord {
+  runId: string;
+  jobId: string;
+  jobType: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  retries: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export async function recordUsage(db: D1Database, usage: UsageRecord): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO llm_usage
+         (run_id, job_id, job_type, model, prompt_tokens, completion_tokens,
+          cost_usd, latency_ms, retries)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      usage.runId,
+      usage.jobId,
+      usage.jobType,
+      usage.model,
+      usage.promptTokens,
+      usage.completionTokens,
+      usage.costUsd,
+      usage.latencyMs,
+      usage.retries
+    )
+    .run();
+}
+
+/**
+ * Usage for one run, keyed by job type (extraction or aggregation tier)
+ */
+export async function getUsageByJobType(
+  db: D1Database,
+  runId: string
+): Promise<Record<string, UsageTotals>> {
+  const results = await db
+    .prepare(
+      `SELECT job_type, COUNT(*) AS calls,
+              SUM(prompt_tokens) AS prompt_tokens,
+              SUM(completion_tokens) AS completion_tokens,
+              SUM(cost_usd) AS cost_usd
+       FROM llm_usage WHERE run_id = ? GROUP BY job_type`
+    )
+    .bind(runId)
+    .all<{
+      job_type: string;
+      calls: number;
+      prompt_tokens: number;
+      completion_tokens: number;
+      cost_usd: number;
+    }>();
+
+  return Object.fromEntries(
+    results.results.map((r) => [
+      r.job_type,
+      {
+        calls: r.calls,
+        promptTokens: r.prompt_tokens,
+        completionTokens: r.completion_tokens,
+        costUsd: r.cost_usd,
+      },
+    ])
+  );
+}
+
+export async function getRunCost(db: D1Database, runId: string): Promise<number> {
+  const result = await db
+    .prepare('SELECT COALESCE(SUM(cost_usd), 0) AS cost_usd FROM llm_usage WHERE run_id = ?')
+    .bind(runId)
+    .first<{ cost_usd: number }>();
+
+  return result?.cost_usd ?? 0;
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export interface AuditEntry {
+  action: string; // Route, e.g. "/api/start"
+  method: string;
+  params: string | null; // Query string, if any
+  scope: string;
+  status: number; // Response status returned to the caller
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export async function recordAudit(db: D1Database, entry: AuditEntry): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO audit_log (action, method, params, scope, status, ip, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      entry.action,
+      entry.method,
+      entry.params,
+      entry.scope,
+      entry.status,
+      entry.ip,
+      entry.userAgent
+    )
+    .run();
+}
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -0,0 +1,94 @@
+/**
+ * Date Helpers
+ *
+ * Calendar math for grouping entry dates into aggregation ranges.
+ * All dates are ISO strings ("YYYY-MM-DD") interpreted as UTC.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDate(new Date(parseDate(date).getTime() + days * DAY_MS));
+}
+
+export function getDayOfWeek(date: string): string {
+  return DAY_NAMES[parseDate(date).getUTCDay()];
+}
+
+/**
+ * Monday of the week containing the date (weeks run Monday → Sunday)
+ */
+export function getWeekStart(date: string): string {
+  const day = parseDate(date).getUTCDay(); // 0 = Sunday
+  const offset = day === 0 ? -6 : 1 - day;
+  return addDays(date, offset);
+}
+
+export function getWeekEnd(weekStart: string): string {
+  return addDays(weekStart, 6);
+}
+
+/**
+ * "YYYY-MM-DD" → "YYYY-MM"
+ */
+export function getMonth(date: string): string {
+  return date.slice(0, 7);
+}
+
+/**
+ * "YYYY-MM-DD" or "YYYY-MM" → "YYYY-QN"
+ */
+export function getQuarter(date: string): string {
+  const [year, month] = date.split('-').map(Number);
+  return `${year}-Q${Math.floor((month - 1) / 3) + 1}`;
+}
+
+/**
+ * First and last day of a "YYYY-MM" month
+ */
+export function getMonthBounds(month: string): { start: string; end: string } {
+  const [year, m] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return { start: `${month}-01`, end: `${month}-${lastDay.toString().padStart(2, '0')}` };
+}
+
+/**
+ * The three "YYYY-MM" months of a "YYYY-QN" quarter
+ */
+export function getQuarterMonths(quarter: string): string[] {
+  const [year, q] = quarter.split('-Q');
+  const startMonth = (parseInt(q) - 1) * 3 + 1;
+  return [0, 1, 2].map((offset) => `${year}-${(startMonth + offset).toString().padStart(2, '0')}`);
+}
+
+/**
+ * Date of an entry id: "2024-11-16_2" → "2024-11-16"
+ */
+export function getEntryDate(entryId: string): string {
+  return entryId.slice(0, 10);
+}
+
+/**
+ * Position of an entry within its day: "2024-11-16" → 1, "2024-11-16_2" → 2
+ */
+export function getEntrySequence(entryId: string): number {
+  const match = entryId.match(/_(\d+)$/);
+  return match ? Number(match[1]) : 1;
+}
+
+/**
+ * Distinct, sorted values of a date grouping
+ */
+export function uniqueSorted(values: string[]): string[] {
+  return Array.from(new Set(values)).sort();
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { decryptObject, encryptObject, getKeyId, isEncrypted } from './envelope';
+
+const KEY = btoa(String.fromCharCode(...Array.from({ length: 32 }, (_, i) => i)));
+const OTHER_KEY = btoa(String.fromCharCode(...Array.from({ length: 32 }, (_, i) => 255 - i)));
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('envelope encryption', () => {
+  it('round-trips text and bytes', async () => {
+    const text = await encryptObject('Dear diary', KEY, 'journals/2024-01-01.md');
+    expect(decode(await decryptObject(text, KEY, 'journals/2024-01-01.md'))).toBe('Dear diary');
+
+    const bytes = new Uint8Array([0, 1, 2, 250]);
+    const body = await encryptObject(bytes, KEY, 'blob');
+    expect(await decryptObject(body, KEY, 'blob')).toEqual(bytes);
+  });
+
+  it('uses a fresh data key and IV for every object', async () => {
+    const first = await encryptObject('same', KEY, 'a');
+    const second = await encryptObject('same', KEY, 'a');
+    expect(first).not.toEqual(second);
+  });
+
+  it('marks encrypted bodies and leaves plaintext alone', async () => {
+    expect(isEncrypted(await encryptObject('', KEY, 'empty'))).toBe(true);
+    expect(isEncrypted(new TextEncoder().encode('# Plain markdown entry'))).toBe(false);
+    expect(isEncrypted(new TextEncoder().encode('RFLENC1\n'))).toBe(false);
+  });
+
+  it('reports a wrong key by its id', async () => {
+    const body = await encryptObject('secret', KEY, 'k');
+    const keyId = await getKeyId(KEY);
+    await expect(decryptObject(body, OTHER_KEY, 'k')).rejects.toThrow(
+      `k was encrypted with a different key (id ${keyId})`
+    );
+  });
+
+  it('refuses a body copied to another object key', async () => {
+    const body = await encryptObject('secret', KEY, 'journals/2024-01-01.md');
+    await expect(decryptObject(body, KEY, 'journals/2024-01-02.md')).rejects.toThrow(
+      'copied from another object key'
+    );
+  });
+
+  it('refuses a tampered body', async () => {
+    const body = await encryptObject('secret', KEY, 'k');
+    body[body.length - 1] ^= 1;
+    await expect(decryptObject(body, KEY, 'k')).rejects.toThrow('failed to decrypt');
+  });
+
+  it('rejects master keys that are not 32 bytes', async () => {
+    await expect(encryptObject('x', btoa('short'), 'k')).rejects.toThrow(
+      'ENCRYPTION_KEY must be base64 of 32 bytes, got 5'
+    );
+  });
+});
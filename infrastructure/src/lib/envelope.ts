@@ -0,0 +1,140 @@
+/**
+ * Envelope Encryption
+ *
+ * Objects are encrypted with a fresh AES-256-GCM data key, which is itself
+ * wrapped with the master key (ENCRYPTION_KEY, base64 of 32 bytes). The
+ * object key is bound in as additional data, so an encrypted body copied to
+ * a different key fails to decrypt. Layout:
+ *
+ *   "RFLENC1\n" | key id (8) | wrap IV (12) | wrapped data key (48) | IV (12) | ciphertext
+ *
+ * The key id is the start of the master key's SHA-256, so a wrong key is
+ * reported as such instead of as corrupt data. Bodies without the magic
+ * prefix are plaintext.
+ *
+ * The local scripts import this module too (upload-to-r2.ts encrypts,
+ * export-data.ts decrypts), so it only uses WebCrypto APIs that Node has and
+ * copies inputs onto plain ArrayBuffers, as the DOM typings require.
+ * Generate a key with: openssl rand -base64 32
+ */
+
+const MAGIC = new TextEncoder().encode('RFLENC1\n');
+const KEY_ID_BYTES = 8;
+const IV_BYTES = 12;
+const WRAPPED_KEY_BYTES = 48; // 32-byte key + 16-byte GCM tag
+const HEADER_BYTES = MAGIC.length + KEY_ID_BYTES + IV_BYTES + WRAPPED_KEY_BYTES + IV_BYTES;
+
+export function isEncrypted(body: Uint8Array): boolean {
+  return body.length >= HEADER_BYTES && MAGIC.every((byte, i) => body[i] === byte);
+}
+
+/**
+ * Hex id of a master key, as stored in encrypted bodies
+ */
+export async function getKeyId(masterKey: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', decodeMasterKey(masterKey)));
+  return toHex(digest.subarray(0, KEY_ID_BYTES));
+}
+
+export async function encryptObject(
+  plaintext: string | Uint8Array,
+  masterKey: string,
+  objectKey: string
+): Promise<Uint8Array> {
+  const data =
+    typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : new Uint8Array(plaintext);
+  const kek = await importMasterKey(masterKey, 'wrapKey');
+  const dek = (await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+  ])) as CryptoKey;
+
+  const wrapIv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const wrapped = await crypto.subtle.wrapKey('raw', dek, kek, { name: 'AES-GCM', iv: wrapIv });
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(objectKey) },
+    dek,
+    data
+  );
+
+  return concat([
+    MAGIC,
+    fromHex(await getKeyId(masterKey)),
+    wrapIv,
+    new Uint8Array(wrapped),
+    iv,
+    new Uint8Array(ciphertext),
+  ]);
+}
+
+export async function decryptObject(
+  body: Uint8Array,
+  masterKey: string,
+  objectKey: string
+): Promise<Uint8Array> {
+  const bytes = new Uint8Array(body);
+  let offset = MAGIC.length;
+  const take = (length: number) => bytes.subarray(offset, (offset += length));
+  const keyId = toHex(take(KEY_ID_BYTES));
+  const wrapIv = take(IV_BYTES);
+  const wrapped = take(WRAPPED_KEY_BYTES);
+  const iv = take(IV_BYTES);
+  const ciphertext = bytes.subarray(offset);
+
+  if (keyId !== (await getKeyId(masterKey))) {
+    throw new Error(`${objectKey} was encrypted with a different key (id ${keyId})`);
+  }
+
+  const kek = await importMasterKey(masterKey, 'unwrapKey');
+  try {
+    const dek = await crypto.subtle.unwrapKey(
+      'raw',
+      wrapped,
+      kek,
+      { name: 'AES-GCM', iv: wrapIv },
+      { name: 'AES-GCM' },
+      false,
+      ['decrypt']
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(objectKey) },
+      dek,
+      ciphertext
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new Error(`${objectKey} failed to decrypt: corrupt, or copied from another object key`);
+  }
+}
+
+function importMasterKey(masterKey: string, usage: 'wrapKey' | 'unwrapKey'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', decodeMasterKey(masterKey), 'AES-GCM', false, [usage]);
+}
+
+function decodeMasterKey(masterKey: string): Uint8Array<ArrayBuffer> {
+  const bytes = Uint8Array.from(atob(masterKey.trim()), (c) => c.charCodeAt(0));
+  if (bytes.length !== 32) {
+    throw new Error(`ENCRYPTION_KEY must be base64 of 32 bytes, got ${bytes.length}`);
+  }
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+}
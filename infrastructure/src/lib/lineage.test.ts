@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { AggregationJob } from '../schemas/types';
+import { buildLineage, coversDate, filterStale, isFresh, markFresh, type Lineage } from './lineage';
+
+const HASHES = {
+  '2024-01-01': 'a',
+  '2024-01-08': 'b',
+  '2024-02-05': 'c',
+  '2024-04-01': 'd',
+};
+
+/**
+ * In-memory KV
+ */
+function fakeKv(): KVNamespace {
+  const kv = new Map<string, string>();
+  return {
+    get: async (key: string) => kv.get(key) ?? null,
+    put: async (key: string, value: string) => void kv.set(key, value),
+  } as unknown as KVNamespace;
+}
+
+/**
+ * Range of every job whose key differs between two lineages
+ */
+function changed(before: Lineage, after: Lineage): string[] {
+  return (Object.keys(before) as (keyof Lineage)[]).flatMap((tier) =>
+    before[tier]
+      .filter((job, i) => job.cacheKey !== after[tier][i].cacheKey)
+      .map((job) => `${tier} ${job.rangeStart}`)
+  );
+}
+
+describe('buildLineage', () => {
+  it('builds every aggregate the entries feed', async () => {
+    const lineage = await buildLineage(HASHES, 'run-1', new Set());
+
+    expect(lineage.weekly.map((j) => j.rangeStart)).toEqual([
+      '2024-01-01',
+      '2024-01-08',
+      '2024-02-05',
+      '2024-04-01',
+    ]);
+    expect(lineage.monthly.map((j) => j.rangeStart)).toEqual(['2024-01', '2024-02', '2024-04']);
+    expect(lineage.quarterly.map((j) => j.rangeStart)).toEqual(['2024-Q1', '2024-Q2']);
+    expect(lineage.synthesis).toMatchObject([{ rangeStart: '2024-Q1', rangeEnd: '2024-Q2' }]);
+    expect(lineage.weekly[0]).toMatchObject({ type: 'aggregation', runId: 'run-1', rangeEnd: '2024-01-07' });
+  });
+
+  it('gives the same keys for the same inputs', async () => {
+    const first = await buildLineage(HASHES, 'run-1', new Set());
+    const second = await buildLineage(HASHES, 'run-2', new Set());
+
+    expect(changed(first, second)).toEqual([]);
+  });
+
+  it('changes only the keys built from an edited entry', async () => {
+    const before = await buildLineage(HASHES, 'run-1', new Set());
+    const after = await buildLineage({ ...HASHES, '2024-01-08': 'edited' }, 'run-1', new Set());
+
+    expect(changed(before, after)).toEqual([
+      'weekly 2024-01-08',
+      'monthly 2024-01',
+      'quarterly 2024-Q1',
+      'synthesis 2024-Q1',
+    ]);
+  });
+
+  it('changes the keys built from a failed job until it succeeds', async () => {
+    const succeeded = await buildLineage(HASHES, 'run-1', new Set());
+    const failed = await buildLineage(HASHES, 'run-1', new Set(['extraction-2024-02-05']));
+
+    expect(changed(succeeded, failed)).toEqual([
+      'weekly 2024-02-05',
+      'monthly 2024-02',
+      'quarterly 2024-Q1',
+      'synthesis 2024-Q1',
+    ]);
+  });
+
+  it('changes the keys above a failed aggregate', async () => {
+    const succeeded = await buildLineage(HASHES, 'run-1', new Set());
+    const failed = await buildLineage(HASHES, 'run-1', new Set(['weekly-2024-04-01']));
+
+    expect(changed(succeeded, failed)).toEqual(['monthly 2024-04', 'quarterly 2024-Q2', 'synthesis 2024-Q1']);
+  });
+});
+
+describe('coversDate', () => {
+  it('matches the aggregates an entry feeds', async () => {
+    const lineage = await buildLineage(HASHES, 'run-1', new Set());
+    const covering = Object.values(lineage)
+      .flat()
+      .filter((job) => coversDate(job, '2024-01-10'))
+      .map((job) => `${job.tier} ${job.rangeStart}`);
+
+    expect(covering).toEqual(['weekly 2024-01-08', 'monthly 2024-01', 'quarterly 2024-Q1', 'synthesis 2024-Q1']);
+  });
+});
+
+describe('freshness', () => {
+  it('reports a key fresh once marked', async () => {
+    const cache = fakeKv();
+
+    expect(await isFresh(cache, 'weekly:key')).toBe(false);
+    await markFresh(cache, 'weekly:key');
+    expect(await isFresh(cache, 'weekly:key')).toBe(true);
+  });
+
+  it('leaves only unmarked jobs stale', async () => {
+    const cache = fakeKv();
+    const { weekly } = await buildLineage(HASHES, 'run-1', new Set());
+    await markFresh(cache, weekly[0].cacheKey!);
+    const unkeyed: AggregationJob = { ...weekly[1], cacheKey: undefined };
+
+    expect(await filterStale(cache, [...weekly, unkeyed])).toEqual([...weekly.slice(1), unkeyed]);
+  });
+
+  it('makes an aggregate stale again when its entry is edited', async () => {
+    const cache = fakeKv();
+    const before = await buildLineage(HASHES, 'run-1', new Set());
+    for (const job of Object.values(before).flat()) await markFresh(cache, job.cacheKey!);
+
+    const after = await buildLineage({ ...HASHES, '2024-04-01': 'edited' }, 'run-2', new Set());
+    const stale = await filterStale(cache, Object.values(after).flat());
+
+    expect(stale.map((job) => `${job.tier} ${job.rangeStart}`)).toEqual([
+      'weekly 2024-04-01',
+      'monthly 2024-04',
+      'quarterly 2024-Q2',
+      'synthesis 2024-Q1',
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Aggregate Lineage
+ *
+ * Maps extraction dates to the aggregates built from them and gives each
+ * aggregate a lineage key: aggregationCacheKey over the hashes of
+ * everything it depends on. An entry edit changes the key of its week, the
+ * month and quarter containing it, and the synthesis; every other key stays
+ * the same. Keys are marked fresh in KV once their aggregate is stored, so
+ * the coordinator only enqueues aggregates whose key is not yet fresh.
+ *
+ * Dependencies mirror what the aggregator reads:
+ * - weekly: extractions in the week
+ * - monthly: weeklies starting in the month + the month's extractions (metrics)
+ * - quarterly: the quarter's monthlies + its extractions (metrics)
+ * - synthesis: every quarterly + every extraction (metrics)
+ */
+
+import type { AggregationTier, AggregationJob } from '../schemas/types';
+import { aggregationCacheKey, hashContent } from './cache';
+import { getJobId } from './d1';
+import {
+  getEntryDate,
+  getWeekStart,
+  getWeekEnd,
+  getMonth,
+  getQuarter,
+  uniqueSorted,
+} from './dates';
+import { WEEKLY_PROMPT_VERSION } from '../prompts/weekly';
+import { MONTHLY_PROMPT_VERSION } from '../prompts/monthly';
+import { QUARTERLY_PROMPT_VERSION } from '../prompts/quarterly';
+import { SYNTHESIS_PROMPT_VERSION } from '../prompts/synthesis';
+
+// Bumping a tier's prompt version makes all of its aggregates stale
+const PROMPT_VERSIONS: Record<AggregationTier, number> = {
+  weekly: WEEKLY_PROMPT_VERSION,
+  monthly: MONTHLY_PROMPT_VERSION,
+  quarterly: QUARTERLY_PROMPT_VERSION,
+  synthesis: SYNTHESIS_PROMPT_VERSION,
+};
+
+const FRESH_PREFIX = 'fresh:';
+
+export type Lineage = Record<AggregationTier, AggregationJob[]>;
+
+/**
+ * Build every aggregate job for a set of entries, each carrying its
+ * lineage key.
+ *
+ * @param entryHashes - extraction input hash (content, metadata and prompt
+ *   version) per entry id: the date, or date_N when a day has several entries
+ * @param failedJobIds - jobs whose last attempt failed. Their dependents get
+ *   a different key than they will once the job succeeds, so they are
+ *   rebuilt after a successful retry.
+ */
+export async function buildLineage(
+  entryHashes: Record<string, string>,
+  runId: string,
+  failedJobIds: Set<string>
+): Promise<Lineage> {
+  const entryIds = Object.keys(entryHashes).sort();
+  const dates = uniqueSorted(entryIds.map(getEntryDate));
+  const hashesOf = (match: (date: string) => boolean) =>
+    entryIds
+      .filter((id) => match(getEntryDate(id)))
+      .map((id) =>
+        failedJobIds.has(`extraction-${id}`) ? `${id}:failed` : `${id}:${entryHashes[id]}`
+      );
+  const keysOf = (jobs: AggregationJob[]) =>
+    jobs.map((j) => {
+      const jobId = getJobId(j);
+      return failedJobIds.has(jobId) ? `${jobId}:failed` : j.cacheKey ?? '';
+    });
+
+  const job = async (
+    tier: AggregationTier,
+    rangeStart: string,
+    rangeEnd: string,
+    dependencies: string[]
+  ): Promise<AggregationJob> => {
+    const inputHash = await hashContent(
+      JSON.stringify([PROMPT_VERSIONS[tier], dependencies])
+    );
+    return {
+      type: 'aggregation',
+      runId,
+      tier,
+      rangeStart,
+      rangeEnd,
+      cacheKey: aggregationCacheKey(tier, `${rangeStart}:${rangeEnd}`, inputHash),
+    };
+  };
+
+  const weekly = await Promise.all(
+    uniqueSorted(dates.map(getWeekStart)).map((start) =>
+      job('weekly', start, getWeekEnd(start), hashesOf((d) => getWeekStart(d) === start))
+    )
+  );
+
+  const monthly = await Promise.all(
+    uniqueSorted(dates.map(getMonth)).map((month) =>
+      job('monthly', month, month, [
+        ...keysOf(weekly.filter((w) => getMonth(w.rangeStart) === month)),
+        ...hashesOf((d) => getMonth(d) === month),
+      ])
+    )
+  );
+
+  const quarterly = await Promise.all(
+    uniqueSorted(dates.map(getQuarter)).map((quarter) =>
+      job('quarterly', quarter, quarter, [
+        ...keysOf(monthly.filter((m) => getQuarter(`${m.rangeStart}-01`) === quarter)),
+        ...hashesOf((d) => getQuarter(d) === quarter),
+      ])
+    )
+  );
+
+  const synthesis =
+    quarterly.length > 0
+      ? [
+          await job(
+            'synthesis',
+            quarterly[0].rangeStart,
+            quarterly[quarterly.length - 1].rangeStart,
+            [...keysOf(quarterly), ...hashesOf(() => true)]
+          ),
+        ]
+      : [];
+
+  return { weekly, monthly, quarterly, synthesis };
+}
+
+/**
+ * Whether an aggregate is built (directly or through lower tiers) from the
+ * extraction for `date`
+ */
+export function coversDate(job: AggregationJob, date: string): boolean {
+  switch (job.tier) {
+    case 'weekly':
+      return getWeekStart(date) === job.rangeStart;
+    case 'monthly':
+      return getMonth(date) === job.rangeStart;
+    case 'quarterly':
+      return getQuarter(date) === job.rangeStart;
+    case 'synthesis':
+      return true;
+  }
+}
+
+/**
+ * Jobs whose lineage key has not been marked fresh
+ */
+export async function filterStale(
+  cache: KVNamespace,
+  jobs: AggregationJob[]
+): Promise<AggregationJob[]> {
+  const fresh = await Promise.all(
+    jobs.map(async (job) => job.cacheKey !== undefined && (await isFresh(cache, job.cacheKey)))
+  );
+  return jobs.filter((_, i) => !fresh[i]);
+}
+
+export async function isFresh(cache: KVNamespace, cacheKey: string): Promise<boolean> {
+  return (await cache.get(`${FRESH_PREFIX}${cacheKey}`)) !== null;
+}
+
+/**
+ * Record that the aggregate for this key is stored. No TTL: a key only
+ * stops matching when its inputs change.
+ */
+export async function markFresh(cache: KVNamespace, cacheKey: string): Promise<void> {
+  await cache.put(`${FRESH_PREFIX}${cacheKey}`, new Date().toISOString());
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { LLMProvider } from './providers';
+import { ProviderError } from './providers';
+import { callOpenRouter, parseJsonResponse } from './openrouter';
+
+/**
+ * Provider that throws the given errors in order, then answers
+ */
+function failingProvider(errors: Error[]): LLMProvider & { calls: number } {
+  const provider = {
+    name: 'test',
+    model: 'test',
+    calls: 0,
+    async complete() {
+      const error = errors[provider.calls++];
+      if (error) throw error;
+      return { content: '{}', promptTokens: 1, completionTokens: 1 };
+    },
+  };
+  return provider;
+}
+
+describe('callOpenRouter', () => {
+  it('retries rate limits and server errors', async () => {
+    const provider = failingProvider([
+      new ProviderError('rate limited', 429),
+      new ProviderError('bad gateway', 502),
+    ]);
+    const result = await callOpenRouter([], { provider, retryDelayMs: 0 });
+
+    expect(result.content).toBe('{}');
+    expect(result.usage.retries).toBe(2);
+    expect(provider.calls).toBe(3);
+  });
+
+  it('retries network failures and timeouts', async () => {
+    const provider = failingProvider([
+      new TypeError('fetch failed'),
+      new DOMException('The operation timed out.', 'TimeoutError'),
+    ]);
+    const result = await callOpenRouter([], { provider, retryDelayMs: 0 });
+
+    expect(result.usage.retries).toBe(2);
+    expect(provider.calls).toBe(3);
+  });
+
+  it('fails straight away on client errors', async () => {
+    const provider = failingProvider([new ProviderError('bad request', 400)]);
+
+    await expect(callOpenRouter([], { provider, retryDelayMs: 0 })).rejects.toThrow('bad request');
+    expect(provider.calls).toBe(1);
+  });
+
+  it('fails straight away on errors that are not from the provider API', async () => {
+    const provider = failingProvider([new Error('No mock fixture for prompt abc')]);
+
+    await expect(callOpenRouter([], { provider, retryDelayMs: 0 })).rejects.toThrow('No mock fixture');
+    expect(provider.calls).toBe(1);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const provider = failingProvider(Array.from({ length: 5 }, () => new ProviderError('down', 503)));
+
+    await expect(
+      callOpenRouter([], { provider, retryDelayMs: 0, maxRetries: 3 })
+    ).rejects.toThrow('down');
+    expect(provider.calls).toBe(3);
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('unwraps a markdown fence', () => {
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+});
@@ -1,84 +1,86 @@
 /**
- * OpenRouter API Client
+ * LLM Client
  *
  * Handles all LLM calls with:
- * - Zero Data Retention (ZDR) mode
- * - Rate limiting
- * - Retry with exponential backoff
+ * - Pluggable providers (OpenRouter, local OpenAI-compatible, mock)
+ * - Zero Data Retention (ZDR) mode on OpenRouter
+ * - Rate limiting through a shared token bucket
+ * - Retry on 429, 5xx and network failures with jittered exponential
+ *   backoff, or Retry-After when given; other errors fail straight away
  */
 
-const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
-const MODEL = 'deepseek/deepseek-chat'; // DeepSeek v3.2
+import type { ValidationResult } from '../schemas/validators';
+import type { ChatMessage, LLMProvider } from './providers';
+import { ProviderError } from './providers';
+import type { RateLimiter } from './rate-limiter';
+import { withJitter } from './rate-limiter';
 
-interface OpenRouterConfig {
-  apiKey: string;
+interface LLMConfig {
+  provider: LLMProvider;
+  limiter?: RateLimiter;
+  estimatedTokens?: number; // Prompt + completion, taken from the token bucket
   maxRetries?: number;
   retryDelayMs?: number;
 }
 
-interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+export interface LLMUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number; // Of the successful attempt
+  retries: number;
 }
 
-interface ChatResponse {
-  choices: {
-    message: {
-      content: string;
-    };
-  }[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+export interface LLMResult {
+  content: string;
+  usage: LLMUsage;
 }
 
 export async function callOpenRouter(
   messages: ChatMessage[],
-  config: OpenRouterConfig
-): Promise<string> {
-  const { apiKey, maxRetries = 3, retryDelayMs = 2000 } = config;
+  config: LLMConfig
+): Promise<LLMResult> {
+  const { provider, limiter, estimatedTokens = 0, maxRetries = 3, retryDelayMs = 2000 } = config;
 
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
-      const response = await fetch(`${OPENROUTER_BASE_URL}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-          'X-ZDR': 'true', // Zero Data Retention
-          'HTTP-Referer': 'https://reflections.local',
-          'X-Title': 'Reflections Pipeline',
+      await limiter?.acquire(estimatedTokens);
+      const startedAt = Date.now();
+      const completion = await provider.complete(messages);
+      return {
+        content: completion.content,
+        usage: {
+          model: provider.model,
+          promptTokens: completion.promptTokens,
+          completionTokens: completion.completionTokens,
+          latencyMs: Date.now() - startedAt,
+          retries: attempt,
         },
-        body: JSON.stringify({
-          model: MODEL,
-          messages,
-          temperature: 0.3, // Lower for more consistent extractions
-          response_format: { type: 'json_object' },
-        }),
-      });
-
-      if (response.status === 429) {
-        // Rate limited - wait and retry
-        const delay = retryDelayMs * Math.pow(2, attempt);
-        console.log(`Rate limited, waiting ${delay}ms...`);
+      };
+    } catch (error) {
+      lastError = error as Error;
+      // Only rate limits, server errors and network failures can succeed on
+      // a later attempt
+      if (!isRetryable(error)) {
+        throw error;
+      }
+      if (error instanceof ProviderError && error.retryAfterMs !== null) {
+        // Told how long to wait: hold back every consumer, not just this one
+        await limiter?.backoff(error.retryAfterMs);
+        const delay = withJitter(error.retryAfterMs);
+        console.log(`Rate limited (Retry-After), waiting ${delay}ms...`);
         await sleep(delay);
         continue;
       }
-
-      if (!response.ok) {
-        throw new Error(`OpenRouter error: ${response.status} ${response.statusText}`);
+      const delay = withJitter(retryDelayMs * Math.pow(2, attempt));
+      if (error instanceof ProviderError && error.status === 429) {
+        // Rate limited - wait and retry
+        console.log(`Rate limited, waiting ${delay}ms...`);
+      } else {
+        console.log(`Attempt ${attempt + 1} failed, waiting ${delay}ms...`);
       }
-
-      const data = (await response.json()) as ChatResponse;
-      return data.choices[0].message.content;
-    } catch (error) {
-      lastError = error as Error;
-      const delay = retryDelayMs * Math.pow(2, attempt);
-      console.log(`Attempt ${attempt + 1} failed, waiting ${delay}ms...`);
       await sleep(delay);
     }
   }
@@ -86,14 +88,46 @@ export async function callOpenRouter(
   throw lastError || new Error('Max retries exceeded');
 }
 
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // fetch rejects with a TypeError when the connection fails, and with an
+  // AbortError or TimeoutError when its signal gives up waiting
+  return (
+    error instanceof TypeError ||
+    (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError'))
+  );
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-export function parseJsonResponse<T>(content: string): T {
+export function parseJsonResponse(content: string): unknown {
+  // Some models wrap JSON in a markdown fence despite response_format
+  const unfenced = content.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
   try {
-    return JSON.parse(content) as T;
+    return JSON.parse(unfenced);
   } catch (error) {
     throw new Error(`Failed to parse JSON response: ${content.slice(0, 200)}...`);
   }
 }
+
+/**
+ * Parse a model response and run it through a schema validator.
+ * Parse failures are reported as validation errors rather than thrown.
+ */
+export function parseAndValidate<T>(
+  content: string,
+  validate: (input: unknown) => ValidationResult<T>
+): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonResponse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { value: null, errors: [message], repairs: [] };
+  }
+  return validate(parsed);
+}
@@ -0,0 +1,209 @@
+/**
+ * LLM Providers
+ *
+ * Every model call goes through an LLMProvider, selected per deployment:
+ * - openrouter: hosted DeepSeek via OpenRouter (default)
+ * - local: any OpenAI-compatible server (llama.cpp, Ollama, vLLM, ...)
+ * - mock: canned responses looked up by prompt hash, for offline runs
+ */
+
+import type { Env } from '../index';
+import { hashContent } from './cache';
+import { getObject } from './r2';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface Completion {
+  content: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(messages: ChatMessage[]): Promise<Completion>;
+}
+
+/**
+ * Thrown for non-2xx responses so callers can treat rate limits specially
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export type ProviderName = 'openrouter' | 'local' | 'mock';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+const OPENROUTER_MODEL = 'deepseek/deepseek-chat'; // DeepSeek v3.2
+const LOCAL_BASE_URL = 'http://localhost:8080/v1';
+const LOCAL_MODEL = 'local';
+const MOCK_FIXTURE_PREFIX = 'fixtures/llm/';
+
+interface ChatResponse {
+  choices: {
+    message: {
+      content: string;
+    };
+  }[];
+  // Some local servers omit usage
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface ChatCompletionsConfig {
+  name: string;
+  baseUrl: string;
+  model: string;
+  headers?: Record<string, string>;
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+export function createOpenRouterProvider(apiKey: string, model = OPENROUTER_MODEL): LLMProvider {
+  return createChatCompletionsProvider({
+    name: 'openrouter',
+    baseUrl: OPENROUTER_BASE_URL,
+    model,
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'X-ZDR': 'true', // Zero Data Retention
+      'HTTP-Referer': 'https://reflections.local',
+      'X-Title': 'Reflections Pipeline',
+    },
+  });
+}
+
+/**
+ * Any server implementing POST /chat/completions. Journals never leave the
+ * machine running it.
+ */
+export function createLocalProvider(
+  baseUrl = LOCAL_BASE_URL,
+  model = LOCAL_MODEL,
+  apiKey?: string
+): LLMProvider {
+  return createChatCompletionsProvider({
+    name: 'local',
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    model,
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+  });
+}
+
+/**
+ * Returns the fixture stored for the SHA-256 of the serialized messages,
+ * falling back to one stored for the system message alone (answers every
+ * call of that prompt type, e.g. all extractions). A missing fixture is an
+ * error naming the full hash, so it can be recorded.
+ */
+export function createMockProvider(
+  lookup: (promptHash: string) => Promise<string | null>
+): LLMProvider {
+  return {
+    name: 'mock',
+    model: 'mock',
+    async complete(messages) {
+      const hash = await promptHash(messages);
+      const fixture =
+        (await lookup(hash)) ??
+        (await lookup(await promptHash(messages.filter((m) => m.role === 'system'))));
+      if (fixture === null) {
+        throw new Error(`No mock fixture for prompt ${hash}`);
+      }
+      return { content: fixture, promptTokens: 0, completionTokens: 0 };
+    },
+  };
+}
+
+export async function promptHash(messages: ChatMessage[]): Promise<string> {
+  return hashContent(JSON.stringify(messages));
+}
+
+/**
+ * Pick the provider configured for this deployment (LLM_PROVIDER var).
+ * Mock fixtures are read from fixtures/llm/<hash>.json in the journals bucket.
+ */
+export function getProvider(env: Env): LLMProvider {
+  const name = (env.LLM_PROVIDER ?? 'openrouter') as ProviderName;
+
+  switch (name) {
+    case 'openrouter':
+      return createOpenRouterProvider(env.OPENROUTER_API_KEY, env.LLM_MODEL);
+    case 'local':
+      return createLocalProvider(env.LLM_BASE_URL, env.LLM_MODEL, env.LLM_API_KEY);
+    case 'mock':
+      return createMockProvider((hash) =>
+        getObject(env.JOURNALS_BUCKET, `${MOCK_FIXTURE_PREFIX}${hash}.json`, env.ENCRYPTION_KEY)
+      );
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
+
+// ============================================================================
+// OpenAI-compatible transport
+// ============================================================================
+
+function createChatCompletionsProvider(config: ChatCompletionsConfig): LLMProvider {
+  return {
+    name: config.name,
+    model: config.model,
+    async complete(messages) {
+      const response = await fetch(`${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...config.headers,
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          temperature: 0.3, // Lower for more consistent extractions
+          response_format: { type: 'json_object' },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new ProviderError(
+          `${config.name} error: ${response.status} ${response.statusText}`,
+          response.status,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
+
+      const data = (await response.json()) as ChatResponse;
+      return {
+        content: data.choices[0].message.content,
+        promptTokens: data.usage?.prompt_tokens ?? 0,
+        completionTokens: data.usage?.completion_tokens ?? 0,
+      };
+    },
+  };
+}
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -1,26 +1,43 @@
 /**
  * R2 Bucket Helpers
  *
- * Utilities for reading/writing to R2 buckets
+ * Utilities for reading/writing to R2 buckets. Given ENCRYPTION_KEY, writes
+ * are envelope-encrypted; reads decrypt encrypted bodies and pass
+ * plaintext ones through, so buckets can hold a mix while migrating.
  */
 
+import { isEncrypted, encryptObject, decryptObject } from './envelope';
+
 export async function getObject(
   bucket: R2Bucket,
-  key: string
+  key: string,
+  encryptionKey?: string
 ): Promise<string | null> {
   const object = await bucket.get(key);
   if (!object) return null;
-  return object.text();
+
+  const body = new Uint8Array(await object.arrayBuffer());
+  if (!isEncrypted(body)) {
+    return new TextDecoder().decode(body);
+  }
+  if (!encryptionKey) {
+    throw new Error(`${key} is encrypted but ENCRYPTION_KEY is not set`);
+  }
+  return new TextDecoder().decode(await decryptObject(body, encryptionKey, key));
 }
 
 export async function putObject(
   bucket: R2Bucket,
   key: string,
   content: string,
-  contentType = 'application/json'
+  contentType = 'application/json',
+  customMetadata?: Record<string, string>,
+  encryptionKey?: string
 ): Promise<void> {
-  await bucket.put(key, content, {
-    httpMetadata: { contentType },
+  const body = encryptionKey ? await encryptObject(content, encryptionKey, key) : content;
+  await bucket.put(key, body, {
+    httpMetadata: { contentType: encryptionKey ? 'application/octet-stream' : contentType },
+    customMetadata,
   });
 }
 
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Env } from '../index';
+import {
+  OPENROUTER_LIMITS,
+  SharedRateLimit,
+  TokenBucket,
+  getRateLimiterConfig,
+  withJitter,
+} from './rate-limiter';
+
+const T0 = 1_700_000_000_000;
+
+describe('TokenBucket', () => {
+  it('starts full so an idle pipeline can burst', () => {
+    const bucket = new TokenBucket(60, T0);
+
+    for (let i = 0; i < 60; i++) {
+      expect(bucket.waitFor(1, T0)).toBe(0);
+      bucket.take(1);
+    }
+    expect(bucket.waitFor(1, T0)).toBe(1_000);
+  });
+
+  it('refills in proportion to the time elapsed', () => {
+    const bucket = new TokenBucket(60, T0);
+    bucket.take(60);
+
+    expect(bucket.waitFor(30, T0 + 10_000)).toBe(20_000);
+    expect(bucket.waitFor(30, T0 + 30_000)).toBe(0);
+  });
+
+  it('never holds more than its capacity', () => {
+    const bucket = new TokenBucket(60, T0);
+    bucket.take(30);
+    bucket.take(30);
+
+    expect(bucket.waitFor(60, T0 + 10 * 60_000)).toBe(0);
+    bucket.take(60);
+    expect(bucket.waitFor(1, T0 + 10 * 60_000)).toBe(1_000);
+  });
+
+  it('only makes a request larger than the bucket wait for a full bucket', () => {
+    const bucket = new TokenBucket(60, T0);
+
+    expect(bucket.waitFor(500, T0)).toBe(0);
+    bucket.take(500);
+    expect(bucket.waitFor(500, T0)).toBe(60_000);
+  });
+});
+
+describe('SharedRateLimit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for whichever bucket runs out first', () => {
+    const limit = new SharedRateLimit({ requestsPerMinute: 2, tokensPerMinute: 1_000 });
+
+    expect(limit.tryAcquire(600, T0)).toBe(0);
+    expect(limit.tryAcquire(600, T0)).toBe(12_000);
+    expect(limit.tryAcquire(400, T0)).toBe(0);
+    expect(limit.tryAcquire(1, T0)).toBe(30_000);
+  });
+
+  it('takes nothing when it has to wait', () => {
+    const limit = new SharedRateLimit({ requestsPerMinute: 60, tokensPerMinute: 1_000 });
+    limit.tryAcquire(1_000, T0);
+
+    expect(limit.tryAcquire(500, T0)).toBe(30_000);
+    expect(limit.tryAcquire(500, T0 + 30_000)).toBe(0);
+  });
+
+  it('holds every request back until a backoff ends', () => {
+    const limit = new SharedRateLimit({ requestsPerMinute: 60, tokensPerMinute: 1_000 });
+    limit.block(5_000, T0);
+
+    expect(limit.tryAcquire(1, T0)).toBe(5_000);
+    expect(limit.tryAcquire(1, T0 + 4_000)).toBe(1_000);
+    expect(limit.tryAcquire(1, T0 + 5_000)).toBe(0);
+  });
+
+  it('keeps the longer of overlapping backoffs', () => {
+    const limit = new SharedRateLimit({ requestsPerMinute: 60, tokensPerMinute: 1_000 });
+    limit.block(10_000, T0);
+    limit.block(2_000, T0 + 1_000);
+
+    expect(limit.tryAcquire(1, T0 + 5_000)).toBe(5_000);
+  });
+});
+
+describe('getRateLimiterConfig', () => {
+  it('reads the limits from the environment', () => {
+    const env = { RATE_LIMIT_RPM: '10', RATE_LIMIT_TPM: '5000' } as unknown as Env;
+
+    expect(getRateLimiterConfig(env)).toEqual({ requestsPerMinute: 10, tokensPerMinute: 5_000 });
+  });
+
+  it('falls back to the defaults for missing or invalid values', () => {
+    const env = { RATE_LIMIT_RPM: '0', RATE_LIMIT_TPM: 'lots' } as unknown as Env;
+
+    expect(getRateLimiterConfig(env)).toEqual(OPENROUTER_LIMITS);
+  });
+});
+
+describe('withJitter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('spreads a delay over up to half again', () => {
+    const random = vi.spyOn(Math, 'random');
+
+    random.mockReturnValue(0);
+    expect(withJitter(1_000)).toBe(1_000);
+    random.mockReturnValue(0.999);
+    expect(withJitter(1_000)).toBe(1_500);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Rate Limiter
+ *
+ * A single limit shared by every queue consumer. The buckets live in the
+ * coordinator Durable Object (one instance, so one view of recent calls);
+ * consumers ask it for capacity before each model request and report
+ * Retry-After so that everyone waits, not just the call that was throttled.
+ */
+
+import type { Env } from '../index';
+
+export interface RateLimiterConfig {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export const OPENROUTER_LIMITS: RateLimiterConfig = {
+  requestsPerMinute: 50, // conservative, well under 500
+  tokensPerMinute: 200_000, // ~60 extractions at ~3K tokens each
+};
+
+export interface RateLimiter {
+  /**
+   * Resolves once a request using about `tokens` tokens may be sent
+   */
+  acquire(tokens: number): Promise<void>;
+  /**
+   * Hold every consumer back for `delayMs` (from a Retry-After header)
+   */
+  backoff(delayMs: number): Promise<void>;
+}
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Refills continuously up to `capacity`, spending one unit per request or
+ * token. Starts full so an idle pipeline can burst.
+ */
+export class TokenBucket {
+  private available: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly capacity: number,
+    now = Date.now()
+  ) {
+    this.available = capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until `amount` units are available (0 if they are now)
+   */
+  waitFor(amount: number, now = Date.now()): number {
+    this.refill(now);
+    // A request larger than the bucket only has to wait for a full bucket
+    const needed = Math.min(amount, this.capacity) - this.available;
+    return needed <= 0 ? 0 : Math.ceil((needed * MINUTE_MS) / this.capacity);
+  }
+
+  take(amount: number): void {
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.updatedAt;
+    this.available = Math.min(
+      this.capacity,
+      this.available + (elapsed * this.capacity) / MINUTE_MS
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Request and token buckets plus a hold from Retry-After, as kept by the
+ * coordinator
+ */
+export class SharedRateLimit {
+  private requests: TokenBucket;
+  private tokens: TokenBucket;
+  private blockedUntil = 0;
+
+  constructor(config: RateLimiterConfig) {
+    this.requests = new TokenBucket(config.requestsPerMinute);
+    this.tokens = new TokenBucket(config.tokensPerMinute);
+  }
+
+  /**
+   * Take capacity for one request if both buckets have it and return 0,
+   * otherwise take nothing and return how long to wait
+   */
+  tryAcquire(tokens: number, now = Date.now()): number {
+    const wait = Math.max(
+      this.blockedUntil - now,
+      this.requests.waitFor(1, now),
+      this.tokens.waitFor(tokens, now)
+    );
+    if (wait > 0) return wait;
+    this.requests.take(1);
+    this.tokens.take(tokens);
+    return 0;
+  }
+
+  block(delayMs: number, now = Date.now()): void {
+    this.blockedUntil = Math.max(this.blockedUntil, now + delayMs);
+  }
+}
+
+/**
+ * Limits from RATE_LIMIT_RPM / RATE_LIMIT_TPM, falling back to OPENROUTER_LIMITS
+ */
+export function getRateLimiterConfig(env: Env): RateLimiterConfig {
+  return {
+    requestsPerMinute: positiveInt(env.RATE_LIMIT_RPM) ?? OPENROUTER_LIMITS.requestsPerMinute,
+    tokensPerMinute: positiveInt(env.RATE_LIMIT_TPM) ?? OPENROUTER_LIMITS.tokensPerMinute,
+  };
+}
+
+/**
+ * Spread a delay over [delayMs, 1.5 × delayMs) so consumers that were
+ * held back together do not all retry at the same moment
+ */
+export function withJitter(delayMs: number): number {
+  return Math.round(delayMs * (1 + Math.random() / 2));
+}
+
+function positiveInt(value: string | undefined): number | null {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
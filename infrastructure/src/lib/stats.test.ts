@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { JournalExtraction, PersonMention } from '../schemas/types';
+import {
+  average,
+  classifyTrend,
+  computeQuarterlyMetrics,
+  computeSynthesisMetrics,
+  computeWeeklyMetrics,
+  countPeople,
+} from './stats';
+
+/**
+ * Only the fields the metrics read; the rest of the extraction is irrelevant
+ */
+function extraction(date: string, fields: Partial<JournalExtraction> = {}): JournalExtraction {
+  return {
+    date,
+    mood_score: 5,
+    energy_level: 5,
+    sleep_quality: null,
+    social_energy_spent: 5,
+    people_mentioned: [],
+    ...fields,
+  } as JournalExtraction;
+}
+
+function person(name: string, sentiment: string): PersonMention {
+  return { name, sentiment, relationship_type: 'friend', interaction_type: 'in-person' };
+}
+
+describe('average', () => {
+  it('rounds to one decimal place', () => {
+    expect(average([7, 8, 8])).toBe(7.7);
+  });
+
+  it('is null for no values', () => {
+    expect(average([])).toBeNull();
+  });
+});
+
+describe('classifyTrend', () => {
+  it.each([
+    [[5], 'stable'],
+    [[5, 5.5, 5, 5.5], 'stable'],
+    [[4, 5, 6, 7], 'improving'],
+    [[8, 7, 6, 5], 'declining'],
+    [[1, 9, 1, 9, 1], 'volatile'],
+  ])('%j is %s', (values, trend) => {
+    expect(classifyTrend(values)).toBe(trend);
+  });
+});
+
+describe('countPeople', () => {
+  it('merges names case-insensitively and ranks by mentions', () => {
+    const people = countPeople([
+      extraction('2024-01-01', { people_mentioned: [person('Person 2', 'negative')] }),
+      extraction('2024-01-02', {
+        people_mentioned: [person('Person 1', 'positive'), person('person 2', 'positive')],
+      }),
+    ]);
+
+    expect(people).toEqual([
+      { name: 'Person 2', count: 2, avg_sentiment: 5 },
+      { name: 'Person 1', count: 1, avg_sentiment: 8 },
+    ]);
+  });
+});
+
+describe('tier metrics', () => {
+  it('averages a week and orders the trend by date', () => {
+    const metrics = computeWeeklyMetrics([
+      extraction('2024-01-03', { mood_score: 8, sleep_quality: 6 }),
+      extraction('2024-01-01', { mood_score: 4 }),
+      extraction('2024-01-02', { mood_score: 6, sleep_quality: 8 }),
+    ]);
+
+    expect(metrics.avg_mood).toBe(6);
+    expect(metrics.avg_sleep_quality).toBe(7);
+    expect(metrics.mood_trend).toBe('improving');
+  });
+
+  it('leaves sleep quality null when no entry rated it', () => {
+    expect(computeWeeklyMetrics([extraction('2024-01-01')]).avg_sleep_quality).toBeNull();
+  });
+
+  it('gives one trajectory point per month and quarter with entries', () => {
+    const extractions = [
+      extraction('2024-01-10', { mood_score: 4 }),
+      extraction('2024-01-20', { mood_score: 6 }),
+      extraction('2024-03-05', { mood_score: 8, energy_level: 7 }),
+      extraction('2024-07-01', { mood_score: 9, social_energy_spent: 3 }),
+    ];
+
+    expect(computeQuarterlyMetrics(extractions.slice(0, 3)).happiness_trajectory).toEqual([5, 8]);
+    expect(computeSynthesisMetrics(extractions)).toEqual({
+      happiness_by_quarter: [6, 9],
+      energy_by_quarter: [5.7, 5],
+      social_engagement_by_quarter: [5, 3],
+    });
+  });
+});
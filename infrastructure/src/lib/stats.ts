@@ -0,0 +1,180 @@
+/**
+ * Deterministic Metrics
+ *
+ * Computes every numeric field of the aggregate tiers directly from stored
+ * extractions. The model is only asked for narrative fields; these values
+ * are passed to it as context and then written over its output.
+ */
+
+import type {
+  JournalExtraction,
+  WeeklySummary,
+  MonthlySummary,
+  QuarterlyNotepad,
+  TwoYearSynthesis,
+} from '../schemas/types';
+import { getMonth, getQuarter, uniqueSorted } from './dates';
+
+export type WeeklyMetrics = Pick<
+  WeeklySummary,
+  'avg_mood' | 'avg_energy' | 'avg_sleep_quality' | 'mood_trend' | 'people_seen'
+>;
+export type MonthlyMetrics = Pick<MonthlySummary, 'happiness_index'>;
+export type QuarterlyMetrics = Pick<
+  QuarterlyNotepad,
+  'happiness_trajectory' | 'energy_trajectory' | 'social_engagement_level'
+>;
+export type SynthesisMetrics = Pick<
+  TwoYearSynthesis,
+  'happiness_by_quarter' | 'energy_by_quarter' | 'social_engagement_by_quarter'
+>;
+
+// PersonMention.sentiment mapped onto the 1-10 scale used by avg_sentiment
+const SENTIMENT_SCORES: Record<string, number> = {
+  positive: 8,
+  mixed: 5,
+  neutral: 5,
+  negative: 2,
+};
+
+// Net change across a window (in mood points) that counts as a trend
+const TREND_THRESHOLD = 1;
+// Typical distance from the trend line above which a window is volatile
+const VOLATILITY_THRESHOLD = 2;
+
+// ============================================================================
+// Tier metrics
+// ============================================================================
+
+export function computeWeeklyMetrics(extractions: JournalExtraction[]): WeeklyMetrics {
+  return {
+    avg_mood: average(extractions.map((e) => e.mood_score)) ?? 0,
+    avg_energy: average(extractions.map((e) => e.energy_level)) ?? 0,
+    avg_sleep_quality: average(
+      extractions.map((e) => e.sleep_quality).filter((q): q is number => q !== null)
+    ),
+    mood_trend: classifyTrend(sortByDate(extractions).map((e) => e.mood_score)),
+    people_seen: countPeople(extractions),
+  };
+}
+
+export function computeMonthlyMetrics(extractions: JournalExtraction[]): MonthlyMetrics {
+  return {
+    happiness_index: average(extractions.map((e) => e.mood_score)) ?? 0,
+  };
+}
+
+/**
+ * Trajectories hold one point per month that has entries, in order
+ */
+export function computeQuarterlyMetrics(extractions: JournalExtraction[]): QuarterlyMetrics {
+  const byMonth = groupBy(extractions, (e) => getMonth(e.date));
+
+  return {
+    happiness_trajectory: byMonth.map((group) => average(group.map((e) => e.mood_score)) ?? 0),
+    energy_trajectory: byMonth.map((group) => average(group.map((e) => e.energy_level)) ?? 0),
+    social_engagement_level: average(extractions.map((e) => e.social_energy_spent)) ?? 0,
+  };
+}
+
+/**
+ * One point per quarter that has entries, in order
+ */
+export function computeSynthesisMetrics(extractions: JournalExtraction[]): SynthesisMetrics {
+  const byQuarter = groupBy(extractions, (e) => getQuarter(e.date));
+
+  return {
+    happiness_by_quarter: byQuarter.map((group) => average(group.map((e) => e.mood_score)) ?? 0),
+    energy_by_quarter: byQuarter.map((group) => average(group.map((e) => e.energy_level)) ?? 0),
+    social_engagement_by_quarter: byQuarter.map(
+      (group) => average(group.map((e) => e.social_energy_spent)) ?? 0
+    ),
+  };
+}
+
+// ============================================================================
+// Building blocks
+// ============================================================================
+
+/**
+ * Mean rounded to one decimal place, or null for no values
+ */
+export function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sum = values.reduce((acc, v) => acc + v, 0);
+  return round(sum / values.length);
+}
+
+/**
+ * Classify a chronological series of scores.
+ *
+ * A least-squares line is fitted to the series. If scores swing far from
+ * that line the window is volatile; otherwise the line's net change across
+ * the window decides between improving, declining and stable.
+ */
+export function classifyTrend(values: number[]): WeeklySummary['mood_trend'] {
+  if (values.length < 2) return 'stable';
+
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((acc, v) => acc + v, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  values.forEach((y, x) => {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+  });
+
+  const slope = covariance / varianceX;
+  const netChange = slope * (n - 1);
+  const residualStdDev = Math.sqrt(
+    values.reduce((acc, y, x) => acc + (y - (meanY + slope * (x - meanX))) ** 2, 0) / n
+  );
+
+  if (residualStdDev >= VOLATILITY_THRESHOLD) return 'volatile';
+  if (netChange >= TREND_THRESHOLD) return 'improving';
+  if (netChange <= -TREND_THRESHOLD) return 'declining';
+  return 'stable';
+}
+
+/**
+ * Count mentions per person (names matched case-insensitively), most
+ * mentioned first
+ */
+export function countPeople(extractions: JournalExtraction[]): WeeklySummary['people_seen'] {
+  const people = new Map<string, { name: string; count: number; sentiments: number[] }>();
+
+  for (const extraction of extractions) {
+    for (const person of extraction.people_mentioned) {
+      const key = person.name.trim().toLowerCase();
+      const entry = people.get(key) ?? { name: person.name.trim(), count: 0, sentiments: [] };
+      entry.count++;
+      entry.sentiments.push(SENTIMENT_SCORES[person.sentiment] ?? SENTIMENT_SCORES.neutral);
+      people.set(key, entry);
+    }
+  }
+
+  return Array.from(people.values())
+    .map(({ name, count, sentiments }) => ({
+      name,
+      count,
+      avg_sentiment: average(sentiments) ?? SENTIMENT_SCORES.neutral,
+    }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function sortByDate(extractions: JournalExtraction[]): JournalExtraction[] {
+  return [...extractions].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function groupBy(
+  extractions: JournalExtraction[],
+  key: (e: JournalExtraction) => string
+): JournalExtraction[][] {
+  return uniqueSorted(extractions.map(key)).map((k) => extractions.filter((e) => key(e) === k));
+}
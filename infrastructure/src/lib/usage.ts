@@ -0,0 +1,126 @@
+/**
+ * Usage & Budget
+ *
+ * Meters every model call: reserves its estimated cost against BUDGET_USD
+ * before calling, then records tokens, cost, latency and retries in D1.
+ * Reservations are held by the coordinator, so consumers running at the
+ * same time can't each pass the check and overspend together.
+ */
+
+import type { Env } from '../index';
+import type { ChatMessage } from './providers';
+import type { RateLimiter } from './rate-limiter';
+import { getProvider } from './providers';
+import { callOpenRouter } from './openrouter';
+import { recordUsage } from './d1';
+
+// USD per million tokens. Models not listed (local, mock) cost nothing.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'deepseek/deepseek-chat': { input: 0.224, output: 0.32 },
+  'deepseek/deepseek-v3.2': { input: 0.224, output: 0.32 },
+};
+
+// Output budgeted for a call before its real size is known (TECH_SPEC
+// estimates ~800 tokens per extraction and up to 5K for the synthesis)
+const ESTIMATED_COMPLETION_TOKENS = 2000;
+
+export interface MeteredJob {
+  runId: string;
+  jobId: string;
+  jobType: string;
+}
+
+/**
+ * Reserves call costs against a run's budget
+ */
+export interface BudgetLedger {
+  /**
+   * Reserve `estimateUsd` if the run's recorded spend, the calls still in
+   * flight and this one fit the budget. Returns the recorded spend either way.
+   */
+  reserve(runId: string, estimateUsd: number): Promise<{ ok: boolean; spentUsd: number }>;
+  /**
+   * Drop a reservation once its call's real cost is recorded (or it failed)
+   */
+  release(runId: string, estimateUsd: number): Promise<void>;
+}
+
+/**
+ * Thrown instead of calling the model when the call could push the run
+ * over its budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly spentUsd: number,
+    public readonly budgetUsd: number
+  ) {
+    super(`Budget of $${budgetUsd.toFixed(2)} reached ($${spentUsd.toFixed(4)} spent)`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Budget cap in USD from the BUDGET_USD var, or null for no cap
+ */
+export function getBudget(env: Env): number | null {
+  const budget = Number.parseFloat(env.BUDGET_USD ?? '');
+  return Number.isFinite(budget) && budget > 0 ? budget : null;
+}
+
+/**
+ * Call the configured provider for a job, enforcing the budget and the
+ * shared rate limit, and recording usage. Returns the response content.
+ */
+export async function callMetered(
+  env: Env,
+  job: MeteredJob,
+  messages: ChatMessage[],
+  limiter: RateLimiter,
+  ledger: BudgetLedger
+): Promise<string> {
+  const provider = getProvider(env);
+
+  // Rough prompt size: ~4 characters per token
+  const promptTokens = Math.ceil(
+    messages.reduce((acc, m) => acc + m.content.length, 0) / 4
+  );
+
+  const budget = getBudget(env);
+  const estimate = estimateCost(provider.model, promptTokens, ESTIMATED_COMPLETION_TOKENS);
+  if (budget !== null) {
+    const { ok, spentUsd } = await ledger.reserve(job.runId, estimate);
+    if (!ok) {
+      throw new BudgetExceededError(spentUsd, budget);
+    }
+  }
+
+  try {
+    const { content, usage } = await callOpenRouter(messages, {
+      provider,
+      limiter,
+      estimatedTokens: promptTokens + ESTIMATED_COMPLETION_TOKENS,
+    });
+
+    await recordUsage(env.DB, {
+      ...job,
+      ...usage,
+      costUsd: estimateCost(usage.model, usage.promptTokens, usage.completionTokens),
+    });
+
+    return content;
+  } finally {
+    if (budget !== null) {
+      await ledger.release(job.runId, estimate);
+    }
+  }
+}
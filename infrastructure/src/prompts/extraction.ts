@@ -4,7 +4,9 @@
  * Converts raw journal entries into structured JournalExtraction JSON
  */
 
-import type { JournalExtraction } from '../schemas/types';
+import type { JournalExtraction, EntryMetadata } from '../schemas/types';
+
+export const EXTRACTION_PROMPT_VERSION = 2;
 
 const EXTRACTION_SCHEMA = `{
   "date": "string (ISO date)",
@@ -40,7 +42,28 @@ const EXTRACTION_SCHEMA = `{
   "summary": "string (2-3 sentences)"
 }`;
 
-export function getExtractionPrompt(date: string, content: string): string {
+/**
+ * Frontmatter values as prompt lines; empty when nothing was recorded
+ */
+function formatMetadata(metadata: EntryMetadata | undefined): string {
+  if (!metadata) return '';
+  const lines = [
+    metadata.mood !== undefined && `- Mood: ${metadata.mood}/10 (use as mood_score)`,
+    metadata.energy !== undefined && `- Energy: ${metadata.energy}/10 (use as energy_level)`,
+    metadata.sleepHours !== undefined && `- Sleep: ${metadata.sleepHours} hours`,
+    metadata.location && `- Location: ${metadata.location}`,
+    metadata.weather && `- Weather: ${metadata.weather}`,
+    metadata.tags?.length && `- Tags: ${metadata.tags.join(', ')}`,
+  ].filter(Boolean);
+  if (lines.length === 0) return '';
+  return `\nRecorded by the author (ground truth, prefer over inference):\n${lines.join('\n')}\n`;
+}
+
+export function getExtractionPrompt(
+  date: string,
+  content: string,
+  metadata?: EntryMetadata
+): string {
   return `You are analyzing a personal journal entry. Extract structured information according to the schema provided.
 
 Context:
@@ -61,7 +84,7 @@ Instructions:
 - For people_mentioned, interaction_type can be: in-person, text, call, video, thought-about, mentioned
 
 Entry Date: ${date}
-Entry Content:
+${formatMetadata(metadata)}Entry Content:
 ${content}
 
 Respond with valid JSON matching this schema:
@@ -5,10 +5,12 @@
  */
 
 import type { WeeklySummary, MonthlySummary } from '../schemas/types';
+import type { MonthlyMetrics } from '../lib/stats';
+
+export const MONTHLY_PROMPT_VERSION = 2;
 
 const MONTHLY_SCHEMA = `{
   "month": "string (YYYY-MM)",
-  "happiness_index": "number (1-10)",
   "overall_trajectory": "string",
   "relationship_health": {
     "family": "number (1-10)",
@@ -26,7 +28,8 @@ const MONTHLY_SCHEMA = `{
 
 export function getMonthlyPrompt(
   month: string,
-  weeklySummaries: WeeklySummary[]
+  weeklySummaries: WeeklySummary[],
+  metrics: MonthlyMetrics
 ): string {
   const weekliesSummary = weeklySummaries
     .map(
@@ -52,12 +55,13 @@ Context:
 
 Month: ${month}
 Number of weeks: ${weeklySummaries.length}
+Happiness index (computed from daily moods): ${metrics.happiness_index}/10
 
 Weekly Summaries:
 ${weekliesSummary}
 
 Instructions:
-- Compute overall happiness index from weekly moods
+- Use the computed happiness index as ground truth; do not output it
 - Assess relationship health with family, friends, romantic partner
 - Identify major milestones, challenges, and wins
 - Note any medication-related patterns
@@ -5,12 +5,12 @@
  */
 
 import type { MonthlySummary, QuarterlyNotepad } from '../schemas/types';
+import type { QuarterlyMetrics } from '../lib/stats';
+
+export const QUARTERLY_PROMPT_VERSION = 2;
 
 const QUARTERLY_SCHEMA = `{
   "quarter": "string (YYYY-QN)",
-  "happiness_trajectory": "number[] (monthly scores)",
-  "energy_trajectory": "number[]",
-  "social_engagement_level": "number (1-10)",
   "chapter_title": "string (thematic title)",
   "opening_state": "string (where was Autumn at quarter start)",
   "closing_state": "string (where was she at quarter end)",
@@ -27,7 +27,8 @@ const QUARTERLY_SCHEMA = `{
 
 export function getQuarterlyPrompt(
   quarter: string,
-  monthlySummaries: MonthlySummary[]
+  monthlySummaries: MonthlySummary[],
+  metrics: QuarterlyMetrics
 ): string {
   const monthliesSummary = monthlySummaries
     .map(
@@ -56,10 +57,16 @@ Context:
 
 Quarter: ${quarter}
 
+Computed Metrics (already calculated - do not recalculate):
+Monthly happiness: ${metrics.happiness_trajectory.join(' → ')}
+Monthly energy: ${metrics.energy_trajectory.join(' → ')}
+Social engagement: ${metrics.social_engagement_level}/10
+
 Monthly Summaries:
 ${monthliesSummary}
 
 Instructions:
+- Use the computed metrics as ground truth; do not output numeric fields
 - Create a compelling "chapter_title" that captures this quarter's theme
 - Describe opening and closing states - how Autumn evolved
 - Track most mentioned people and their relationship trajectories
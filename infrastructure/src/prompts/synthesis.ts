@@ -5,15 +5,15 @@
  */
 
 import type { QuarterlyNotepad, TwoYearSynthesis } from '../schemas/types';
+import type { SynthesisMetrics } from '../lib/stats';
+
+export const SYNTHESIS_PROMPT_VERSION = 2;
 
 const SYNTHESIS_SCHEMA = `{
   "thesis": "string (one sentence capturing the arc)",
   "pre_autumn_summary": "string (before Jan 1, 2025)",
   "post_autumn_summary": "string (after Jan 1, 2025)",
   "transition_narrative": "string (the full identity journey)",
-  "happiness_by_quarter": "number[]",
-  "energy_by_quarter": "number[]",
-  "social_engagement_by_quarter": "number[]",
   "weekly_patterns": {
     "best_days": "string[]",
     "worst_days": "string[]",
@@ -40,7 +40,10 @@ const SYNTHESIS_SCHEMA = `{
   "full_narrative": "string (multi-page story)"
 }`;
 
-export function getSynthesisPrompt(notepads: QuarterlyNotepad[]): string {
+export function getSynthesisPrompt(
+  notepads: QuarterlyNotepad[],
+  metrics: SynthesisMetrics
+): string {
   const notepadsSummary = notepads
     .map(
       (n) =>
@@ -69,10 +72,16 @@ Context:
   - Jan 1, 2025: Started going by "Autumn" (identity milestone)
   - Nov 2025: Started Guanfacine (watch for improvement)
 
+Computed Metrics by Quarter (already calculated - do not recalculate):
+Happiness: ${metrics.happiness_by_quarter.join(', ')}
+Energy: ${metrics.energy_by_quarter.join(', ')}
+Social engagement: ${metrics.social_engagement_by_quarter.join(', ')}
+
 Quarterly Notepads:
 ${notepadsSummary}
 
 Instructions:
+- Use the computed metrics as ground truth; do not output numeric fields
 - Write a single "thesis" sentence capturing the two-year arc
 - Separate pre-Autumn (2024) and post-Autumn (2025) summaries
 - Write a compelling transition_narrative covering the identity journey
@@ -5,15 +5,13 @@
  */
 
 import type { JournalExtraction, WeeklySummary } from '../schemas/types';
+import type { WeeklyMetrics } from '../lib/stats';
+
+export const WEEKLY_PROMPT_VERSION = 2;
 
 const WEEKLY_SCHEMA = `{
   "week_start": "string (ISO date)",
   "week_end": "string (ISO date)",
-  "avg_mood": "number (1-10)",
-  "avg_energy": "number (1-10)",
-  "avg_sleep_quality": "number | null",
-  "mood_trend": "improving | declining | stable | volatile",
-  "people_seen": [{ "name": "string", "count": "number", "avg_sentiment": "number (1-10)" }],
   "dominant_themes": "string[]",
   "notable_events": "string[]",
   "hrt_cycle_notes": "string | null",
@@ -23,7 +21,8 @@ const WEEKLY_SCHEMA = `{
 export function getWeeklyPrompt(
   weekStart: string,
   weekEnd: string,
-  extractions: JournalExtraction[]
+  extractions: JournalExtraction[],
+  metrics: WeeklyMetrics
 ): string {
   const extractionsSummary = extractions
     .map(
@@ -35,6 +34,10 @@ Summary: ${e.summary}`
     )
     .join('\n\n---\n\n');
 
+  const people = metrics.people_seen
+    .map((p) => `${p.name} (${p.count}x, sentiment ${p.avg_sentiment}/10)`)
+    .join(', ');
+
   return `You are synthesizing a week of journal entries into a weekly summary.
 
 Context:
@@ -45,13 +48,19 @@ Context:
 Week: ${weekStart} to ${weekEnd}
 Number of entries: ${extractions.length}
 
+Computed Metrics (already calculated - do not recalculate):
+Average mood: ${metrics.avg_mood}/10
+Average energy: ${metrics.avg_energy}/10
+Average sleep quality: ${metrics.avg_sleep_quality ?? 'not mentioned'}
+Mood trend: ${metrics.mood_trend}
+People seen: ${people || 'None'}
+
 Daily Extractions:
 ${extractionsSummary}
 
 Instructions:
-- Calculate averages for mood, energy, sleep quality
-- Identify mood trend (improving/declining/stable/volatile)
-- Aggregate people seen across the week
+- Use the computed metrics as ground truth; do not output numeric fields
+- Identify the week's dominant themes and notable events
 - Note any HRT cycle patterns (Tuesday dip, Wednesday boost)
 - Write a narrative paragraph capturing the week's story
 
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { Env } from './index';
+import { handleQueueBatch } from './queue';
+
+const JOB = {
+  type: 'extraction',
+  runId: 'run-1',
+  entryId: '2024-01-01',
+  date: '2024-01-01',
+  r2Key: 'journals/2024-01-01.md',
+  wordCount: 10,
+  contentHash: 'abc',
+};
+
+function message(id: string, body: unknown) {
+  const calls: string[] = [];
+  return {
+    id,
+    body,
+    attempts: 1,
+    timestamp: new Date(),
+    calls,
+    ack: () => calls.push('ack'),
+    retry: () => calls.push('retry'),
+  };
+}
+
+function batch(queue: string, messages: ReturnType<typeof message>[]): MessageBatch<unknown> {
+  return { queue, messages, ackAll: () => {}, retryAll: () => {} } as unknown as MessageBatch;
+}
+
+/**
+ * Env whose coordinator can't be reached
+ */
+function unreachableCoordinator(): Env {
+  const stub = {
+    fetch: async () => {
+      throw new Error('coordinator unavailable');
+    },
+  };
+  return {
+    COORDINATOR: { idFromName: () => 'main', get: () => stub },
+    DB: {
+      prepare: () => {
+        throw new Error('D1 unavailable');
+      },
+    },
+  } as unknown as Env;
+}
+
+describe('handleQueueBatch', () => {
+  it('retries each message on its own when the coordinator is unreachable', async () => {
+    const messages = [message('1', JOB), message('2', { ...JOB, entryId: '2024-01-02' })];
+
+    await handleQueueBatch(batch('extraction-queue', messages), unreachableCoordinator());
+
+    expect(messages.map((m) => m.calls)).toEqual([['retry'], ['retry']]);
+  });
+
+  it('retries dead letters that could not be recorded', async () => {
+    const messages = [message('1', JOB)];
+
+    await handleQueueBatch(batch('extraction-dlq', messages), unreachableCoordinator());
+
+    expect(messages[0].calls).toEqual(['retry']);
+  });
+
+  it('drops malformed dead letters', async () => {
+    const messages = [message('1', { type: 'extraction' }), message('2', 'junk')];
+
+    await handleQueueBatch(batch('extraction-dlq', messages), unreachableCoordinator());
+
+    expect(messages.map((m) => m.calls)).toEqual([['ack'], ['ack']]);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Queue Consumer
+ *
+ * Routes each batch by the queue it came from:
+ * - extraction-queue → handleExtraction
+ * - aggregation-queue → handleAggregation
+ * - *-dlq → dead letters recorded in D1 and counted as failed by the coordinator
+ *
+ * Messages in a batch run in parallel (up to QUEUE_CONCURRENCY), all
+ * drawing on the rate limit held by the coordinator, and each message is
+ * acked or retried on its own, including when D1 or the coordinator can't be
+ * reached. Jobs the coordinator no longer expects (paused, cancelled or
+ * superseded runs) are acked without running.
+ */
+
+import type { Env } from './index';
+import type { ExtractionJob, AggregationJob, AggregationTier, PipelineJob } from './schemas/types';
+import type { RateLimiter } from './lib/rate-limiter';
+import type { BudgetLedger } from './lib/usage';
+import { handleExtraction } from './extractor';
+import { handleAggregation } from './aggregator';
+import {
+  admitJob,
+  getBudgetLedger,
+  getRateLimiter,
+  notifyJobComplete,
+  notifyJobDeadLettered,
+  notifyJobFailed,
+  pausePipeline,
+} from './coordinator';
+import { BudgetExceededError } from './lib/usage';
+import { getJobId, recordJobError, recordDeadLetter } from './lib/d1';
+
+// Backoff for failed messages: 30s, 60s, 120s, ... capped at 10 minutes
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 600;
+
+const DEFAULT_CONCURRENCY = 5;
+
+const AGGREGATION_TIERS: AggregationTier[] = ['weekly', 'monthly', 'quarterly', 'synthesis'];
+
+interface QueueRoute<T extends PipelineJob> {
+  parse: (body: unknown) => T | null;
+  handle: (job: T, env: Env, limiter: RateLimiter, ledger: BudgetLedger) => Promise<void>;
+}
+
+const ROUTES: Record<string, QueueRoute<ExtractionJob> | QueueRoute<AggregationJob>> = {
+  'extraction-queue': { parse: parseExtractionJob, handle: handleExtraction },
+  'aggregation-queue': { parse: parseAggregationJob, handle: handleAggregation },
+};
+
+export async function handleQueueBatch(batch: MessageBatch<unknown>, env: Env): Promise<void> {
+  // Messages that ran out of retries: keep them in D1 for /api/failures and
+  // let the run finish without them
+  if (batch.queue.endsWith('-dlq')) {
+    const route = ROUTES[batch.queue.replace(/-dlq$/, '-queue')];
+    for (const message of batch.messages) {
+      await settle(message, async () => {
+        const job = route?.parse(message.body);
+        if (!job) {
+          console.error(`Dropping malformed dead letter ${message.id}: ${JSON.stringify(message.body)}`);
+          message.ack();
+          return;
+        }
+        await recordDeadLetter(env.DB, batch.queue, job);
+        await notifyJobDeadLettered(env, job);
+        message.ack();
+      });
+    }
+    return;
+  }
+
+  const route = ROUTES[batch.queue];
+  if (!route) {
+    // Retrying cannot help; let max_retries move the batch to the DLQ
+    console.error(`No handler for queue ${batch.queue}`);
+    batch.retryAll();
+    return;
+  }
+
+  const limiter = getRateLimiter(env);
+  const ledger = getBudgetLedger(env);
+  await mapWithConcurrency(batch.messages, getConcurrency(env), (message) =>
+    settle(message, () =>
+      processMessage(message, route as QueueRoute<PipelineJob>, env, limiter, ledger)
+    )
+  );
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Run one message's handling; if it throws (D1 or the coordinator
+ * unreachable), retry that message instead of failing the whole batch.
+ * Every step is safe to repeat: completions and dead letters are deduped.
+ */
+async function settle(message: Message<unknown>, handle: () => Promise<void>): Promise<void> {
+  try {
+    await handle();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Message ${message.id} failed (attempt ${message.attempts}), retrying: ${reason}`);
+    message.retry({ delaySeconds: RETRY_BASE_DELAY_SECONDS });
+  }
+}
+
+async function processMessage(
+  message: Message<unknown>,
+  route: QueueRoute<PipelineJob>,
+  env: Env,
+  limiter: RateLimiter,
+  ledger: BudgetLedger
+): Promise<void> {
+  const job = route.parse(message.body);
+  if (!job) {
+    // Malformed messages would fail the same way on every attempt
+    console.error(`Dropping malformed message ${message.id}: ${JSON.stringify(message.body)}`);
+    message.ack();
+    return;
+  }
+
+  // Paused or cancelled runs: drop the message; resume re-enqueues the job
+  if (!(await admitJob(env, job))) {
+    console.log(`Dropping ${getJobId(job)}: not part of an active run`);
+    message.ack();
+    return;
+  }
+
+  try {
+    await route.handle(job, env, limiter, ledger);
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      // Not completed: the coordinator marks the job pending and keeps it
+      // for resume, and the pipeline waits paused
+      console.error(error.message);
+      await pausePipeline(env, error.message, job);
+      message.ack();
+      return;
+    }
+    const jobId = getJobId(job);
+    const jobType = job.type === 'extraction' ? 'extraction' : job.tier;
+    const reason = error instanceof Error ? error.message : String(error);
+    await recordJobError(env.DB, jobId, jobType, reason);
+    await notifyJobFailed(env, job, reason, message.attempts);
+
+    // Retry this message only; after max_retries it goes to the DLQ
+    const delaySeconds = Math.min(
+      RETRY_BASE_DELAY_SECONDS * 2 ** (message.attempts - 1),
+      RETRY_MAX_DELAY_SECONDS
+    );
+    console.error(
+      `${jobId} failed (attempt ${message.attempts}), retrying in ${delaySeconds}s: ${reason}`
+    );
+    message.retry({ delaySeconds });
+    return;
+  }
+
+  await notifyJobComplete(env, job);
+  message.ack();
+}
+
+function parseExtractionJob(body: unknown): ExtractionJob | null {
+  if (!isRecord(body) || body.type !== 'extraction') return null;
+  const { runId, entryId, date, r2Key, wordCount, contentHash, metadata, force } = body;
+  return typeof runId === 'string' &&
+    (entryId === undefined || typeof entryId === 'string') &&
+    typeof date === 'string' &&
+    typeof r2Key === 'string' &&
+    typeof wordCount === 'number' &&
+    typeof contentHash === 'string' &&
+    (metadata === undefined || isRecord(metadata)) &&
+    (force === undefined || typeof force === 'boolean')
+    ? (body as unknown as ExtractionJob)
+    : null;
+}
+
+function parseAggregationJob(body: unknown): AggregationJob | null {
+  if (!isRecord(body) || body.type !== 'aggregation') return null;
+  const { runId, tier, rangeStart, rangeEnd, cacheKey, force } = body;
+  return typeof runId === 'string' &&
+    AGGREGATION_TIERS.includes(tier as AggregationTier) &&
+    typeof rangeStart === 'string' &&
+    typeof rangeEnd === 'string' &&
+    (cacheKey === undefined || typeof cacheKey === 'string') &&
+    (force === undefined || typeof force === 'boolean')
+    ? (body as unknown as AggregationJob)
+    : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// Concurrency
+// ============================================================================
+
+function getConcurrency(env: Env): number {
+  const concurrency = Number.parseInt(env.QUEUE_CONCURRENCY ?? '', 10);
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Run fn over items with at most `limit` calls in flight
+ */
+async function mapWithConcurrency<T>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
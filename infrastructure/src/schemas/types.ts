@@ -226,12 +226,33 @@ export interface TwoYearSynthesis {
 // Pipeline Types
 // ============================================================================
 
+/**
+ * Values recorded by the author in an entry's frontmatter. Scores are on a
+ * 1-10 scale; absent fields were not recorded.
+ */
+export interface EntryMetadata {
+  tags?: string[];
+  mood?: number;
+  energy?: number;
+  sleepHours?: number;
+  location?: string;
+  weather?: string;
+}
+
+/**
+ * entryId is the date, or "YYYY-MM-DD_N" for the Nth entry of a day when
+ * preprocessing keeps same-day files apart. Manifests from before
+ * multi-entry days have no entryId; the date stands in for it.
+ */
 export interface ManifestEntry {
+  entryId?: string;
   date: string;
   originalPath: string;
   r2Key: string;
   wordCount: number;
   contentHash: string;
+  metadata?: EntryMetadata;
+  mergedFrom?: string[]; // Source files, when several were merged into one entry
 }
 
 export interface Manifest {
@@ -243,3 +264,62 @@ export interface Manifest {
   };
   entries: ManifestEntry[];
 }
+
+export type AggregationTier = 'weekly' | 'monthly' | 'quarterly' | 'synthesis';
+
+export interface ExtractionJob {
+  type: 'extraction';
+  runId: string; // Pipeline run that enqueued the job, for usage accounting
+  entryId?: string; // Absent for the only entry of a day; see ManifestEntry
+  date: string;
+  r2Key: string;
+  wordCount: number;
+  contentHash: string;
+  metadata?: EntryMetadata; // From frontmatter; preferred over inferred values
+  force?: boolean; // Re-extract even if the content is unchanged or cached
+}
+
+/**
+ * Range format depends on tier:
+ * - weekly: "YYYY-MM-DD" (Monday) → "YYYY-MM-DD" (Sunday)
+ * - monthly: "YYYY-MM" → "YYYY-MM"
+ * - quarterly: "YYYY-QN" → "YYYY-QN"
+ * - synthesis: first quarter → last quarter
+ */
+export interface AggregationJob {
+  type: 'aggregation';
+  runId: string;
+  tier: AggregationTier;
+  rangeStart: string;
+  rangeEnd: string;
+  cacheKey?: string; // Lineage key, marked fresh once the result is stored
+  force?: boolean; // Call the model even if the inputs are unchanged
+}
+
+export type PipelineJob = ExtractionJob | AggregationJob;
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export interface ExportMetadata {
+  manifestHash: string | null;
+  model: string;
+  promptVersions: {
+    extraction: number;
+    weekly: number;
+    monthly: number;
+    quarterly: number;
+    synthesis: number;
+  };
+}
+
+export interface DashboardData {
+  generatedAt: string;
+  metadata: ExportMetadata;
+  synthesis: TwoYearSynthesis | null;
+  quarterlyNotepads: QuarterlyNotepad[];
+  monthlySummaries: MonthlySummary[];
+  weeklySummaries: WeeklySummary[];
+  extractions: JournalExtraction[];
+}
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import {
+  validateJournalExtraction,
+  validateMonthlySummary,
+  validateTwoYearSynthesis,
+  validateWeeklySummary,
+} from './validators';
+
+function extraction(fields: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    date: '2024-01-01',
+    day_of_week: 'Monday',
+    word_count: 120,
+    mood_score: 7,
+    energy_level: 6,
+    happiness_indicators: ['walk'],
+    distress_indicators: [],
+    sleep_mentioned: true,
+    sleep_quality: 7,
+    sleep_notes: null,
+    hrt_mentioned: false,
+    hrt_notes: null,
+    medication_mentions: [],
+    physical_health_notes: [],
+    people_mentioned: [
+      { name: 'Person 1', relationship_type: 'friend', sentiment: 'positive', interaction_type: 'call' },
+    ],
+    family_dynamics_notes: null,
+    social_energy_spent: 4,
+    activities: ['walking'],
+    major_events: [],
+    work_notes: null,
+    creative_activities: [],
+    dominant_themes: ['rest'],
+    self_reflection_depth: 5,
+    future_oriented: true,
+    gratitude_expressed: false,
+    gender_identity_notes: null,
+    dysphoria_mentioned: false,
+    euphoria_mentioned: false,
+    name_usage: null,
+    key_quotes: [],
+    summary: 'A quiet day.',
+    ...fields,
+  };
+}
+
+function weekly(fields: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    week_start: '2024-01-01',
+    week_end: '2024-01-07',
+    avg_mood: 6.5,
+    avg_energy: 6,
+    avg_sleep_quality: null,
+    mood_trend: 'stable',
+    people_seen: [{ name: 'Person 1', count: 2, avg_sentiment: 8 }],
+    dominant_themes: ['rest'],
+    notable_events: [],
+    hrt_cycle_notes: null,
+    narrative_summary: 'Steady.',
+    ...fields,
+  };
+}
+
+const strict = (fields: Record<string, unknown>) => validateJournalExtraction(extraction(fields));
+const coerced = (fields: Record<string, unknown>) =>
+  validateJournalExtraction(extraction(fields), { coerce: true });
+
+describe('valid output', () => {
+  it('passes through unchanged', () => {
+    const result = validateJournalExtraction(extraction());
+
+    expect(result).toEqual({ value: extraction(), errors: [], repairs: [] });
+  });
+
+  it('trims strings', () => {
+    expect(strict({ summary: '  A quiet day. ' }).value?.summary).toBe('A quiet day.');
+  });
+
+  it('takes overrides over the model values', () => {
+    const result = validateJournalExtraction(extraction({ date: 'yesterday', mood_score: 2 }), {
+      overrides: { date: '2024-01-01', mood_score: 8 },
+    });
+
+    expect(result.value).toMatchObject({ date: '2024-01-01', mood_score: 8 });
+  });
+});
+
+describe('rejections', () => {
+  it('requires a JSON object', () => {
+    expect(validateJournalExtraction([1])).toEqual({
+      value: null,
+      errors: ['expected JSON object, got array'],
+      repairs: [],
+    });
+  });
+
+  it.each([
+    [{ summary: '' }, 'summary: expected non-empty string, got ""'],
+    [{ summary: 42 }, 'summary: expected non-empty string, got 42'],
+    [{ mood_score: 'high' }, 'mood_score: expected number, got "high"'],
+    [{ mood_score: 11 }, 'mood_score: 11 is outside 1-10'],
+    [{ word_count: -1 }, `word_count: -1 is outside 0-${Number.MAX_SAFE_INTEGER}`],
+    [{ future_oriented: 'yes' }, 'future_oriented: expected boolean, got "yes"'],
+    [{ sleep_notes: undefined }, 'sleep_notes: missing (use null for no value)'],
+    [{ sleep_quality: 'N/A' }, 'sleep_quality: expected number, got "N/A"'],
+    [{ activities: 'walking' }, 'activities: expected array, got "walking"'],
+    [{ activities: ['walking', 3] }, 'activities[1]: expected non-empty string, got 3'],
+    [{ dominant_themes: ['a', 'b', 'c', 'd', 'e', 'f'] }, 'dominant_themes: 6 items exceeds max of 5'],
+    [{ people_mentioned: ['Person 1'] }, 'people_mentioned[0]: expected object, got "Person 1"'],
+    [
+      { people_mentioned: [{ name: 'Person 1', relationship_type: 'Friend', sentiment: 'positive', interaction_type: 'call' }] },
+      'people_mentioned[0].relationship_type: expected one of family | friend | partner | coworker | acquaintance | other, got "Friend"',
+    ],
+  ])('%j', (fields, error) => {
+    const result = strict(fields);
+
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual([error]);
+  });
+
+  it('reports nested paths', () => {
+    const result = validateWeeklySummary(
+      weekly({
+        people_seen: [
+          { name: 'Person 1', count: 2, avg_sentiment: 8 },
+          { name: 'Person 2', count: 'three', avg_sentiment: 5 },
+        ],
+      }),
+      { coerce: true }
+    );
+
+    expect(result.errors).toEqual(['people_seen[1].count: expected number, got "three"']);
+  });
+
+  it('requires nested objects', () => {
+    const result = validateMonthlySummary({}, { coerce: true });
+
+    expect(result.errors).toContain('relationship_health: expected object, got missing');
+    expect(result.errors).toContain('relationship_health.family: expected number, got missing');
+  });
+
+  it('checks every medication period of the synthesis', () => {
+    const result = validateTwoYearSynthesis({ medication_correlations: {} }, { coerce: true });
+
+    expect(result.errors).toContain(
+      'medication_correlations.guanfacine_period: expected object, got missing'
+    );
+    expect(result.errors).toContain(
+      'medication_correlations.adderall_period.summary: expected non-empty string, got missing'
+    );
+  });
+
+  it('still rejects what coercion cannot repair', () => {
+    const result = coerced({ mood_score: 'high', mood_trend: undefined, future_oriented: 'maybe' });
+
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual([
+      'mood_score: expected number, got "high"',
+      'future_oriented: expected boolean, got "maybe"',
+    ]);
+  });
+
+  it('has no fallback for the mood trend', () => {
+    const result = validateWeeklySummary(weekly({ mood_trend: 'up' }), { coerce: true });
+
+    expect(result.errors).toEqual([
+      'mood_trend: expected one of improving | declining | stable | volatile, got "up"',
+    ]);
+  });
+});
+
+describe('coercion', () => {
+  it.each([
+    [{ mood_score: '7' }, { mood_score: 7 }, 'mood_score: parsed "7" as number'],
+    [{ mood_score: 12 }, { mood_score: 10 }, 'mood_score: clamped 12 to 10'],
+    [{ mood_score: 0 }, { mood_score: 1 }, 'mood_score: clamped 0 to 1'],
+    [{ word_count: 120.6 }, { word_count: 121 }, null],
+    [{ summary: 42 }, { summary: '42' }, 'summary: converted 42 to string'],
+    [{ future_oriented: 'Yes' }, { future_oriented: true }, 'future_oriented: parsed "Yes" as true'],
+    [{ future_oriented: 'no' }, { future_oriented: false }, 'future_oriented: parsed "no" as false'],
+    [{ future_oriented: undefined }, { future_oriented: false }, 'future_oriented: parsed missing as false'],
+    [{ sleep_quality: 'N/A' }, { sleep_quality: null }, 'sleep_quality: "N/A" → null'],
+    [{ sleep_notes: undefined }, { sleep_notes: null }, 'sleep_notes: missing, set to null'],
+    [{ activities: 'walking' }, { activities: ['walking'] }, 'activities: wrapped string in array'],
+    [{ activities: 'none' }, { activities: [] }, 'activities: wrapped string in array'],
+    [{ activities: null }, { activities: [] }, 'activities: null, set to []'],
+    [{ activities: ['walking', ''] }, { activities: ['walking'] }, 'activities[1]: dropped ""'],
+    [
+      { dominant_themes: ['a', 'b', 'c', 'd', 'e', 'f'] },
+      { dominant_themes: ['a', 'b', 'c', 'd', 'e'] },
+      'dominant_themes: truncated 6 items to 5',
+    ],
+    [{ people_mentioned: ['Person 1'] }, { people_mentioned: [] }, 'people_mentioned[0]: dropped "Person 1"'],
+  ])('%j', (fields, expected, repair) => {
+    const result = coerced(fields);
+
+    expect(result.errors).toEqual([]);
+    expect(result.value).toMatchObject(expected);
+    expect(result.repairs).toEqual(repair ? [repair] : []);
+  });
+
+  it('normalizes enum casing and falls back for unknown values', () => {
+    const result = coerced({
+      people_mentioned: [
+        { name: 'Person 1', relationship_type: ' Friend ', sentiment: 'ecstatic', interaction_type: 'call' },
+      ],
+    });
+
+    expect(result.value?.people_mentioned[0]).toMatchObject({
+      relationship_type: 'friend',
+      sentiment: 'neutral',
+    });
+    expect(result.repairs).toEqual([
+      'people_mentioned[0].relationship_type: normalized " Friend " to "friend"',
+      'people_mentioned[0].sentiment: replaced "ecstatic" with "neutral"',
+    ]);
+  });
+
+  it('shortens long values in messages', () => {
+    const result = strict({ mood_score: 'x'.repeat(50) });
+
+    expect(result.errors).toEqual([`mood_score: expected number, got "${'x'.repeat(40)}…"`]);
+  });
+});
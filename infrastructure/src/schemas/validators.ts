@@ -0,0 +1,498 @@
+/**
+ * Runtime validation for LLM output
+ *
+ * The interfaces in types.ts only exist at compile time, and the model is
+ * asked for JSON matching them with no guarantee it complies. Validators
+ * check every field and report errors by path (e.g.
+ * `people_seen[2].count: expected number, got "three"`).
+ *
+ * With `coerce: true`, near-misses are repaired and listed in `repairs`:
+ * numeric strings, "N/A" for nullable fields, out-of-range scores, over-long
+ * lists and enum casing. Anything that still fails is an error, and `value`
+ * is only returned when there are no errors.
+ */
+
+import type {
+  JournalExtraction,
+  PersonMention,
+  WeeklySummary,
+  MonthlySummary,
+  QuarterlyNotepad,
+  TwoYearSynthesis,
+} from './types';
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+  repairs: string[];
+}
+
+export interface ValidateOptions<T> {
+  // Repair near-misses instead of reporting them as errors
+  coerce?: boolean;
+  // Fields known from the job rather than the model (dates, counts)
+  overrides?: Partial<T>;
+}
+
+export type Validator<T> = (input: unknown, options?: ValidateOptions<T>) => ValidationResult<T>;
+
+export const RELATIONSHIP_TYPES = ['family', 'friend', 'partner', 'coworker', 'acquaintance', 'other'];
+export const SENTIMENTS = ['positive', 'negative', 'neutral', 'mixed'];
+export const INTERACTION_TYPES = ['in-person', 'text', 'call', 'video', 'thought-about', 'mentioned'];
+export const MOOD_TRENDS: WeeklySummary['mood_trend'][] = ['improving', 'declining', 'stable', 'volatile'];
+
+const MAX_THEMES = 5;
+const MAX_QUOTES = 3;
+
+// Strings the model uses when it means "no value"
+const NULL_LIKE = ['', 'n/a', 'na', 'none', 'null', 'unknown', '-'];
+
+// ============================================================================
+// Phase 1: Journal Extraction
+// ============================================================================
+
+export const validateJournalExtraction: Validator<JournalExtraction> = (input, options) =>
+  run(input, options, (ctx, o) => ({
+    date: string(ctx, o.date, 'date'),
+    day_of_week: string(ctx, o.day_of_week, 'day_of_week'),
+    word_count: count(ctx, o.word_count, 'word_count'),
+
+    mood_score: score(ctx, o.mood_score, 'mood_score'),
+    energy_level: score(ctx, o.energy_level, 'energy_level'),
+    happiness_indicators: stringArray(ctx, o.happiness_indicators, 'happiness_indicators'),
+    distress_indicators: stringArray(ctx, o.distress_indicators, 'distress_indicators'),
+
+    sleep_mentioned: boolean(ctx, o.sleep_mentioned, 'sleep_mentioned'),
+    sleep_quality: nullable(ctx, o.sleep_quality, 'sleep_quality', score),
+    sleep_notes: nullable(ctx, o.sleep_notes, 'sleep_notes', string),
+
+    hrt_mentioned: boolean(ctx, o.hrt_mentioned, 'hrt_mentioned'),
+    hrt_notes: nullable(ctx, o.hrt_notes, 'hrt_notes', string),
+    medication_mentions: stringArray(ctx, o.medication_mentions, 'medication_mentions'),
+    physical_health_notes: stringArray(ctx, o.physical_health_notes, 'physical_health_notes'),
+
+    people_mentioned: objectArray(ctx, o.people_mentioned, 'people_mentioned', readPersonMention),
+    family_dynamics_notes: nullable(ctx, o.family_dynamics_notes, 'family_dynamics_notes', string),
+    social_energy_spent: score(ctx, o.social_energy_spent, 'social_energy_spent'),
+
+    activities: stringArray(ctx, o.activities, 'activities'),
+    major_events: stringArray(ctx, o.major_events, 'major_events'),
+    work_notes: nullable(ctx, o.work_notes, 'work_notes', string),
+    creative_activities: stringArray(ctx, o.creative_activities, 'creative_activities'),
+
+    dominant_themes: stringArray(ctx, o.dominant_themes, 'dominant_themes', MAX_THEMES),
+    self_reflection_depth: score(ctx, o.self_reflection_depth, 'self_reflection_depth'),
+    future_oriented: boolean(ctx, o.future_oriented, 'future_oriented'),
+    gratitude_expressed: boolean(ctx, o.gratitude_expressed, 'gratitude_expressed'),
+
+    gender_identity_notes: nullable(ctx, o.gender_identity_notes, 'gender_identity_notes', string),
+    dysphoria_mentioned: boolean(ctx, o.dysphoria_mentioned, 'dysphoria_mentioned'),
+    euphoria_mentioned: boolean(ctx, o.euphoria_mentioned, 'euphoria_mentioned'),
+    name_usage: nullable(ctx, o.name_usage, 'name_usage', string),
+
+    key_quotes: stringArray(ctx, o.key_quotes, 'key_quotes', MAX_QUOTES),
+    summary: string(ctx, o.summary, 'summary'),
+  }));
+
+function readPersonMention(ctx: Context, o: Record<string, unknown>, path: string): PersonMention {
+  return {
+    name: string(ctx, o.name, `${path}.name`),
+    relationship_type: enumValue(ctx, o.relationship_type, `${path}.relationship_type`, RELATIONSHIP_TYPES, 'other'),
+    sentiment: enumValue(ctx, o.sentiment, `${path}.sentiment`, SENTIMENTS, 'neutral'),
+    interaction_type: enumValue(ctx, o.interaction_type, `${path}.interaction_type`, INTERACTION_TYPES, 'mentioned'),
+  };
+}
+
+// ============================================================================
+// Phase 2 Tier 1: Weekly Summaries
+// ============================================================================
+
+export const validateWeeklySummary: Validator<WeeklySummary> = (input, options) =>
+  run(input, options, (ctx, o) => ({
+    week_start: string(ctx, o.week_start, 'week_start'),
+    week_end: string(ctx, o.week_end, 'week_end'),
+
+    avg_mood: score(ctx, o.avg_mood, 'avg_mood'),
+    avg_energy: score(ctx, o.avg_energy, 'avg_energy'),
+    avg_sleep_quality: nullable(ctx, o.avg_sleep_quality, 'avg_sleep_quality', score),
+
+    mood_trend: enumValue(ctx, o.mood_trend, 'mood_trend', MOOD_TRENDS),
+
+    people_seen: objectArray(ctx, o.people_seen, 'people_seen', (c, p, path) => ({
+      name: string(c, p.name, `${path}.name`),
+      count: count(c, p.count, `${path}.count`),
+      avg_sentiment: score(c, p.avg_sentiment, `${path}.avg_sentiment`),
+    })),
+
+    dominant_themes: stringArray(ctx, o.dominant_themes, 'dominant_themes'),
+    notable_events: stringArray(ctx, o.notable_events, 'notable_events'),
+
+    hrt_cycle_notes: nullable(ctx, o.hrt_cycle_notes, 'hrt_cycle_notes', string),
+
+    narrative_summary: string(ctx, o.narrative_summary, 'narrative_summary'),
+  }));
+
+// ============================================================================
+// Phase 2 Tier 2: Monthly Summaries
+// ============================================================================
+
+export const validateMonthlySummary: Validator<MonthlySummary> = (input, options) =>
+  run(input, options, (ctx, o) => {
+    const health = object(ctx, o.relationship_health, 'relationship_health');
+
+    return {
+      month: string(ctx, o.month, 'month'),
+
+      happiness_index: score(ctx, o.happiness_index, 'happiness_index'),
+      overall_trajectory: string(ctx, o.overall_trajectory, 'overall_trajectory'),
+
+      relationship_health: {
+        family: score(ctx, health.family, 'relationship_health.family'),
+        friends: score(ctx, health.friends, 'relationship_health.friends'),
+        romantic: nullable(ctx, health.romantic, 'relationship_health.romantic', score),
+      },
+
+      top_themes: stringArray(ctx, o.top_themes, 'top_themes'),
+      major_milestones: stringArray(ctx, o.major_milestones, 'major_milestones'),
+      challenges_faced: stringArray(ctx, o.challenges_faced, 'challenges_faced'),
+      wins: stringArray(ctx, o.wins, 'wins'),
+
+      medication_notes: nullable(ctx, o.medication_notes, 'medication_notes', string),
+      sleep_pattern_summary: string(ctx, o.sleep_pattern_summary, 'sleep_pattern_summary'),
+
+      narrative_summary: string(ctx, o.narrative_summary, 'narrative_summary'),
+    };
+  });
+
+// ============================================================================
+// Phase 2 Tier 3: Quarterly Notepads
+// ============================================================================
+
+export const validateQuarterlyNotepad: Validator<QuarterlyNotepad> = (input, options) =>
+  run(input, options, (ctx, o) => ({
+    quarter: string(ctx, o.quarter, 'quarter'),
+
+    happiness_trajectory: scoreArray(ctx, o.happiness_trajectory, 'happiness_trajectory'),
+    energy_trajectory: scoreArray(ctx, o.energy_trajectory, 'energy_trajectory'),
+    social_engagement_level: score(ctx, o.social_engagement_level, 'social_engagement_level'),
+
+    chapter_title: string(ctx, o.chapter_title, 'chapter_title'),
+    opening_state: string(ctx, o.opening_state, 'opening_state'),
+    closing_state: string(ctx, o.closing_state, 'closing_state'),
+
+    most_mentioned_people: objectArray(ctx, o.most_mentioned_people, 'most_mentioned_people', (c, p, path) => ({
+      name: string(c, p.name, `${path}.name`),
+      total_mentions: count(c, p.total_mentions, `${path}.total_mentions`),
+      trajectory: string(c, p.trajectory, `${path}.trajectory`),
+    })),
+    family_dynamics_summary: string(ctx, o.family_dynamics_summary, 'family_dynamics_summary'),
+
+    hrt_progress_notes: nullable(ctx, o.hrt_progress_notes, 'hrt_progress_notes', string),
+    medication_changes: stringArray(ctx, o.medication_changes, 'medication_changes'),
+    sleep_trend: string(ctx, o.sleep_trend, 'sleep_trend'),
+
+    skills_developed: stringArray(ctx, o.skills_developed, 'skills_developed'),
+    challenges_overcome: stringArray(ctx, o.challenges_overcome, 'challenges_overcome'),
+    unresolved_threads: stringArray(ctx, o.unresolved_threads, 'unresolved_threads'),
+
+    narrative: string(ctx, o.narrative, 'narrative'),
+  }));
+
+// ============================================================================
+// Phase 2 Tier 4: Two-Year Synthesis
+// ============================================================================
+
+export const validateTwoYearSynthesis: Validator<TwoYearSynthesis> = (input, options) =>
+  run(input, options, (ctx, o) => {
+    const weekly = object(ctx, o.weekly_patterns, 'weekly_patterns');
+    const seasonal = object(ctx, o.seasonal_patterns, 'seasonal_patterns');
+    const medication = object(ctx, o.medication_correlations, 'medication_correlations');
+
+    const period = (key: string) => {
+      const p = object(ctx, medication[key], `medication_correlations.${key}`);
+      return {
+        dates: string(ctx, p.dates, `medication_correlations.${key}.dates`),
+        summary: string(ctx, p.summary, `medication_correlations.${key}.summary`),
+      };
+    };
+
+    return {
+      thesis: string(ctx, o.thesis, 'thesis'),
+
+      pre_autumn_summary: string(ctx, o.pre_autumn_summary, 'pre_autumn_summary'),
+      post_autumn_summary: string(ctx, o.post_autumn_summary, 'post_autumn_summary'),
+      transition_narrative: string(ctx, o.transition_narrative, 'transition_narrative'),
+
+      happiness_by_quarter: scoreArray(ctx, o.happiness_by_quarter, 'happiness_by_quarter'),
+      energy_by_quarter: scoreArray(ctx, o.energy_by_quarter, 'energy_by_quarter'),
+      social_engagement_by_quarter: scoreArray(ctx, o.social_engagement_by_quarter, 'social_engagement_by_quarter'),
+
+      weekly_patterns: {
+        best_days: stringArray(ctx, weekly.best_days, 'weekly_patterns.best_days'),
+        worst_days: stringArray(ctx, weekly.worst_days, 'weekly_patterns.worst_days'),
+        hrt_cycle_correlation: string(ctx, weekly.hrt_cycle_correlation, 'weekly_patterns.hrt_cycle_correlation'),
+      },
+
+      seasonal_patterns: {
+        best_season: string(ctx, seasonal.best_season, 'seasonal_patterns.best_season'),
+        worst_season: string(ctx, seasonal.worst_season, 'seasonal_patterns.worst_season'),
+        notes: string(ctx, seasonal.notes, 'seasonal_patterns.notes'),
+      },
+
+      medication_correlations: {
+        adderall_period: period('adderall_period'),
+        atomoxetine_period: period('atomoxetine_period'),
+        guanfacine_period: period('guanfacine_period'),
+      },
+
+      relationship_arcs: objectArray(ctx, o.relationship_arcs, 'relationship_arcs', (c, a, path) => ({
+        name: string(c, a.name, `${path}.name`),
+        arc_summary: string(c, a.arc_summary, `${path}.arc_summary`),
+        current_status: string(c, a.current_status, `${path}.current_status`),
+      })),
+
+      family_journey: string(ctx, o.family_journey, 'family_journey'),
+
+      milestones: objectArray(ctx, o.milestones, 'milestones', (c, m, path) => ({
+        date: string(c, m.date, `${path}.date`),
+        event: string(c, m.event, `${path}.event`),
+        impact: string(c, m.impact, `${path}.impact`),
+      })),
+
+      strengths_demonstrated: stringArray(ctx, o.strengths_demonstrated, 'strengths_demonstrated'),
+      recurring_challenges: stringArray(ctx, o.recurring_challenges, 'recurring_challenges'),
+      unfinished_business: stringArray(ctx, o.unfinished_business, 'unfinished_business'),
+      growth_areas: stringArray(ctx, o.growth_areas, 'growth_areas'),
+
+      executive_summary: string(ctx, o.executive_summary, 'executive_summary'),
+      full_narrative: string(ctx, o.full_narrative, 'full_narrative'),
+    };
+  });
+
+// ============================================================================
+// Field readers
+// ============================================================================
+
+interface Context {
+  coerce: boolean;
+  errors: string[];
+  repairs: string[];
+}
+
+type Reader<T> = (ctx: Context, value: unknown, path: string) => T;
+
+function run<T>(
+  input: unknown,
+  options: ValidateOptions<T> = {},
+  read: (ctx: Context, obj: Record<string, unknown>) => T
+): ValidationResult<T> {
+  if (!isRecord(input)) {
+    return { value: null, errors: [`expected JSON object, got ${describe(input)}`], repairs: [] };
+  }
+
+  const ctx: Context = { coerce: options.coerce ?? false, errors: [], repairs: [] };
+  const value = read(ctx, { ...input, ...options.overrides });
+
+  return {
+    value: ctx.errors.length === 0 ? value : null,
+    errors: ctx.errors,
+    repairs: ctx.repairs,
+  };
+}
+
+function string(ctx: Context, value: unknown, path: string): string {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.trim();
+  }
+  if (ctx.coerce && (typeof value === 'number' || typeof value === 'boolean')) {
+    ctx.repairs.push(`${path}: converted ${describe(value)} to string`);
+    return String(value);
+  }
+  ctx.errors.push(`${path}: expected non-empty string, got ${describe(value)}`);
+  return '';
+}
+
+function number(ctx: Context, value: unknown, path: string, min: number, max: number): number {
+  let n = value;
+  if (ctx.coerce && typeof n === 'string' && n.trim() !== '' && Number.isFinite(Number(n))) {
+    ctx.repairs.push(`${path}: parsed ${describe(n)} as number`);
+    n = Number(n);
+  }
+
+  if (typeof n !== 'number' || !Number.isFinite(n)) {
+    ctx.errors.push(`${path}: expected number, got ${describe(value)}`);
+    return 0;
+  }
+
+  if (n < min || n > max) {
+    if (!ctx.coerce) {
+      ctx.errors.push(`${path}: ${n} is outside ${min}-${max}`);
+      return n;
+    }
+    const clamped = Math.min(max, Math.max(min, n));
+    ctx.repairs.push(`${path}: clamped ${n} to ${clamped}`);
+    return clamped;
+  }
+  return n;
+}
+
+function score(ctx: Context, value: unknown, path: string): number {
+  return number(ctx, value, path, 1, 10);
+}
+
+function count(ctx: Context, value: unknown, path: string): number {
+  return Math.round(number(ctx, value, path, 0, Number.MAX_SAFE_INTEGER));
+}
+
+function boolean(ctx: Context, value: unknown, path: string): boolean {
+  if (typeof value === 'boolean') return value;
+
+  if (ctx.coerce) {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+    if (normalized === 'true' || normalized === 'yes') {
+      ctx.repairs.push(`${path}: parsed ${describe(value)} as true`);
+      return true;
+    }
+    if (normalized === 'false' || normalized === 'no' || normalized === undefined || normalized === null) {
+      ctx.repairs.push(`${path}: parsed ${describe(value)} as false`);
+      return false;
+    }
+  }
+
+  ctx.errors.push(`${path}: expected boolean, got ${describe(value)}`);
+  return false;
+}
+
+function nullable<T>(ctx: Context, value: unknown, path: string, read: Reader<T>): T | null {
+  if (value === null) return null;
+
+  if (value === undefined) {
+    if (ctx.coerce) {
+      ctx.repairs.push(`${path}: missing, set to null`);
+      return null;
+    }
+    ctx.errors.push(`${path}: missing (use null for no value)`);
+    return null;
+  }
+
+  if (ctx.coerce && typeof value === 'string' && NULL_LIKE.includes(value.trim().toLowerCase())) {
+    ctx.repairs.push(`${path}: ${describe(value)} → null`);
+    return null;
+  }
+
+  return read(ctx, value, path);
+}
+
+function enumValue<T extends string>(
+  ctx: Context,
+  value: unknown,
+  path: string,
+  allowed: readonly T[],
+  fallback?: T
+): T {
+  if (allowed.includes(value as T)) {
+    return value as T;
+  }
+
+  if (ctx.coerce) {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (allowed.includes(normalized as T)) {
+      ctx.repairs.push(`${path}: normalized ${describe(value)} to "${normalized}"`);
+      return normalized as T;
+    }
+    if (fallback !== undefined) {
+      ctx.repairs.push(`${path}: replaced ${describe(value)} with "${fallback}"`);
+      return fallback;
+    }
+  }
+
+  ctx.errors.push(`${path}: expected one of ${allowed.join(' | ')}, got ${describe(value)}`);
+  return fallback ?? allowed[0];
+}
+
+function object(ctx: Context, value: unknown, path: string): Record<string, unknown> {
+  if (isRecord(value)) return value;
+  ctx.errors.push(`${path}: expected object, got ${describe(value)}`);
+  return {};
+}
+
+function array(ctx: Context, value: unknown, path: string): unknown[] {
+  if (Array.isArray(value)) return value;
+
+  if (ctx.coerce && (value === undefined || value === null)) {
+    ctx.repairs.push(`${path}: ${describe(value)}, set to []`);
+    return [];
+  }
+  if (ctx.coerce && typeof value === 'string') {
+    ctx.repairs.push(`${path}: wrapped string in array`);
+    return NULL_LIKE.includes(value.trim().toLowerCase()) ? [] : [value];
+  }
+
+  ctx.errors.push(`${path}: expected array, got ${describe(value)}`);
+  return [];
+}
+
+function limit<T>(ctx: Context, items: T[], path: string, max?: number): T[] {
+  if (max === undefined || items.length <= max) return items;
+  if (ctx.coerce) {
+    ctx.repairs.push(`${path}: truncated ${items.length} items to ${max}`);
+    return items.slice(0, max);
+  }
+  ctx.errors.push(`${path}: ${items.length} items exceeds max of ${max}`);
+  return items;
+}
+
+function stringArray(ctx: Context, value: unknown, path: string, max?: number): string[] {
+  const items = array(ctx, value, path);
+  const strings: string[] = [];
+
+  items.forEach((item, i) => {
+    if (typeof item === 'string' && item.trim() !== '') {
+      strings.push(item.trim());
+    } else if (ctx.coerce) {
+      ctx.repairs.push(`${path}[${i}]: dropped ${describe(item)}`);
+    } else {
+      ctx.errors.push(`${path}[${i}]: expected non-empty string, got ${describe(item)}`);
+    }
+  });
+
+  return limit(ctx, strings, path, max);
+}
+
+function scoreArray(ctx: Context, value: unknown, path: string): number[] {
+  return array(ctx, value, path).map((item, i) => score(ctx, item, `${path}[${i}]`));
+}
+
+function objectArray<T>(
+  ctx: Context,
+  value: unknown,
+  path: string,
+  read: (ctx: Context, obj: Record<string, unknown>, path: string) => T
+): T[] {
+  const items: T[] = [];
+
+  array(ctx, value, path).forEach((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (isRecord(item)) {
+      items.push(read(ctx, item, itemPath));
+    } else if (ctx.coerce) {
+      ctx.repairs.push(`${itemPath}: dropped ${describe(item)}`);
+    } else {
+      ctx.errors.push(`${itemPath}: expected object, got ${describe(item)}`);
+    }
+  });
+
+  return items;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  return typeof value === 'object' ? 'object' : String(value);
+}
@@ -0,0 +1,325 @@
+/**
+ * End-to-end pipeline run on the mock provider
+ *
+ * Bundles the worker and runs it in Miniflare with local R2, D1, KV,
+ * queues and the coordinator Durable Object. Canned model responses come
+ * from tests/fixtures/llm/<prompt type>.json, stored under the hash of each
+ * system prompt so they answer every call of that type.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { build } from 'esbuild';
+import { Miniflare } from 'miniflare';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { DeadLetter, UsageTotals } from '../../src/lib/d1';
+import { promptHash } from '../../src/lib/providers';
+import { getExtractionPrompt, getExtractionSystemPrompt } from '../../src/prompts/extraction';
+import { getWeeklySystemPrompt } from '../../src/prompts/weekly';
+import { getMonthlySystemPrompt } from '../../src/prompts/monthly';
+import { getQuarterlySystemPrompt } from '../../src/prompts/quarterly';
+import { getSynthesisSystemPrompt } from '../../src/prompts/synthesis';
+
+const ROOT = join(__dirname, '..', '..');
+const TOKEN = 'test-control-token';
+
+const SYSTEM_PROMPTS: Record<string, string> = {
+  extraction: getExtractionSystemPrompt(),
+  weekly: getWeeklySystemPrompt(),
+  monthly: getMonthlySystemPrompt(),
+  quarterly: getQuarterlySystemPrompt(),
+  synthesis: getSynthesisSystemPrompt(),
+};
+
+// One week in one month, with two entries on the same day
+const ENTRIES = [
+  { entryId: '2024-01-01', date: '2024-01-01', text: 'Walked in the park with Person 1.' },
+  { entryId: '2024-01-03', date: '2024-01-03', text: 'A quiet, good day.' },
+  { entryId: '2024-01-03_2', date: '2024-01-03', text: 'Evening: read for an hour.' },
+];
+
+let mf: Miniflare;
+let bundleDir: string;
+
+beforeAll(async () => {
+  bundleDir = mkdtempSync(join(tmpdir(), 'reflections-test-'));
+  const scriptPath = join(bundleDir, 'index.js');
+  await build({
+    entryPoints: [join(ROOT, 'src', 'index.ts')],
+    outfile: scriptPath,
+    bundle: true,
+    format: 'esm',
+    platform: 'neutral',
+    target: 'es2022',
+    logLevel: 'silent',
+  });
+
+  // Dead-letter on the first failure rather than waiting out retry delays
+  const consumer = (deadLetterQueue?: string) => ({
+    maxBatchSize: 5,
+    maxBatchTimeout: 1,
+    maxRetries: 0,
+    deadLetterQueue,
+  });
+
+  mf = new Miniflare({
+    modules: true,
+    scriptPath,
+    modulesRoot: bundleDir,
+    compatibilityDate: '2024-12-01',
+    r2Buckets: ['JOURNALS_BUCKET', 'OUTPUTS_BUCKET'],
+    d1Databases: ['DB'],
+    kvNamespaces: ['CACHE'],
+    durableObjects: { COORDINATOR: 'ReflectionsCoordinator' },
+    queueProducers: {
+      EXTRACTION_QUEUE: 'extraction-queue',
+      AGGREGATION_QUEUE: 'aggregation-queue',
+      // Only for sending dead letters directly
+      EXTRACTION_DLQ: 'extraction-dlq',
+    },
+    queueConsumers: {
+      'extraction-queue': consumer('extraction-dlq'),
+      'aggregation-queue': consumer('aggregation-dlq'),
+      'extraction-dlq': consumer(),
+      'aggregation-dlq': consumer(),
+    },
+    bindings: {
+      ENVIRONMENT: 'test',
+      LLM_PROVIDER: 'mock',
+      OPENROUTER_API_KEY: '',
+      API_CONTROL_TOKEN: TOKEN,
+      BUDGET_USD: '2.00',
+      RATE_LIMIT_RPM: '1000',
+      RATE_LIMIT_TPM: '10000000',
+      QUEUE_CONCURRENCY: '5',
+    },
+  });
+
+  // Schema, then migrations in order, as `pnpm db:migrate` applies them
+  const db = await mf.getD1Database('DB');
+  const migrations = readdirSync(join(ROOT, 'migrations'))
+    .filter((file) => file.endsWith('.sql'))
+    .sort()
+    .map((file) => join('migrations', file));
+  for (const file of ['schema.sql', ...migrations]) {
+    const statements = readFileSync(join(ROOT, file), 'utf-8')
+      .replace(/--.*$/gm, '')
+      .split(';')
+      .map((statement) => statement.trim())
+      .filter(Boolean);
+    await db.batch(statements.map((statement) => db.prepare(statement)));
+  }
+
+  const journals = await mf.getR2Bucket('JOURNALS_BUCKET');
+  for (const [type, systemPrompt] of Object.entries(SYSTEM_PROMPTS)) {
+    const hash = await promptHash([{ role: 'system', content: systemPrompt }]);
+    const fixture = readFileSync(join(ROOT, 'tests', 'fixtures', 'llm', `${type}.json`), 'utf-8');
+    await journals.put(`fixtures/llm/${hash}.json`, fixture);
+  }
+  for (const entry of ENTRIES) {
+    await journals.put(`journals/${entry.entryId}.md`, entry.text);
+  }
+  await putManifest(ENTRIES);
+}, 60_000);
+
+afterAll(async () => {
+  await mf?.dispose();
+  rmSync(bundleDir, { recursive: true, force: true });
+});
+
+async function putManifest(entries: typeof ENTRIES): Promise<void> {
+  const journals = await mf.getR2Bucket('JOURNALS_BUCKET');
+  await journals.put(
+    'manifest.json',
+    JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      totalEntries: entries.length,
+      dateRange: { start: entries[0].date, end: entries[entries.length - 1].date },
+      entries: entries.map((entry) => ({
+        entryId: entry.entryId,
+        date: entry.date,
+        originalPath: `${entry.entryId}.md`,
+        r2Key: `journals/${entry.entryId}.md`,
+        wordCount: entry.text.split(/\s+/).length,
+        contentHash: entry.entryId,
+      })),
+    })
+  );
+}
+
+// The parts of the coordinator's responses these tests read
+interface Status {
+  phase: string;
+  runId: string | null;
+  processedEntries: number;
+  failedJobs: number;
+  usage: { byJobType: Record<string, UsageTotals> };
+  failures: { jobId: string; error: string | null }[];
+}
+
+interface Started {
+  status: 'started';
+  runId: string;
+}
+
+async function api(path: string, method = 'GET'): Promise<unknown> {
+  const response = await mf.dispatchFetch(`http://localhost${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${TOKEN}` },
+  });
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+async function start(path = '/api/start'): Promise<Started> {
+  const started = await api(path, 'POST');
+  expect(started).toMatchObject({ status: 'started', runId: expect.any(String) });
+  return started as Started;
+}
+
+async function getStatus(): Promise<Status> {
+  const status = await api('/api/status');
+  expect(status).toMatchObject({ phase: expect.any(String) });
+  return status as Status;
+}
+
+async function getDeadLetters(): Promise<DeadLetter[]> {
+  const body = await api('/api/failures');
+  expect(body).toMatchObject({ deadLetters: expect.any(Array) });
+  return (body as { deadLetters: DeadLetter[] }).deadLetters;
+}
+
+async function waitForPhase(phases: string[], timeoutMs = 60_000): Promise<Status> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const status = await getStatus();
+    if (phases.includes(status.phase)) return status;
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out in phase ${status.phase}: ${JSON.stringify(status)}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+}
+
+describe('pipeline on the mock provider', () => {
+  it('extracts every entry, aggregates each tier and exports the dashboard data', async () => {
+    await start();
+    const status = await waitForPhase(['complete', 'cancelled']);
+
+    expect(status.phase).toBe('complete');
+    expect(status.processedEntries).toBe(ENTRIES.length);
+    expect(status.failures).toEqual([]);
+
+    const db = await mf.getD1Database('DB');
+    const count = async (table: string) =>
+      (await db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).first<{ n: number }>())!.n;
+    expect(await count('extractions')).toBe(ENTRIES.length);
+    expect(await count('weekly_summaries')).toBe(1);
+    expect(await count('monthly_summaries')).toBe(1);
+    expect(await count('quarterly_notepads')).toBe(1);
+
+    const outputs = await mf.getR2Bucket('OUTPUTS_BUCKET');
+    const dashboard = await outputs.get('dashboard-data.json');
+    expect(dashboard).not.toBeNull();
+    const data = JSON.parse(await dashboard!.text());
+    expect(data.synthesis?.thesis).toBe('Steady growth.');
+  }, 90_000);
+
+  it('counts dead-lettered jobs so the run still finishes', async () => {
+    // Listed in the manifest but never uploaded: extraction fails every attempt
+    await putManifest([
+      ...ENTRIES,
+      { entryId: '2024-01-05', date: '2024-01-05', text: 'Missing from the bucket.' },
+    ]);
+
+    await start();
+    const status = await waitForPhase(['complete', 'cancelled']);
+
+    expect(status.phase).toBe('complete');
+    expect(status.processedEntries).toBe(ENTRIES.length + 1);
+    expect(status.failedJobs).toBe(1);
+
+    const deadLetters = await getDeadLetters();
+    expect(deadLetters.map((d) => d.jobId)).toEqual(['extraction-2024-01-05']);
+  }, 90_000);
+
+  it('records a redelivered dead letter once', async () => {
+    const deadLetters = await getDeadLetters();
+    const dlq = await mf.getQueueProducer('EXTRACTION_DLQ');
+    await dlq.send(deadLetters[0].job);
+    await dlq.send(deadLetters[0].job);
+    // Sent last, so once it is recorded the redeliveries have been handled
+    const marker = {
+      ...deadLetters[0].job,
+      runId: 'marker',
+      entryId: '2024-01-09',
+      date: '2024-01-09',
+    };
+    await dlq.send(marker);
+
+    const db = await mf.getD1Database('DB');
+    const deadLetterIds = async () =>
+      (await db.prepare('SELECT job_id FROM dead_letters').all<{ job_id: string }>()).results.map(
+        (row) => row.job_id
+      );
+    const deadline = Date.now() + 30_000;
+    while (!(await deadLetterIds()).includes('extraction-2024-01-09') && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+
+    expect((await deadLetterIds()).sort()).toEqual(['extraction-2024-01-05', 'extraction-2024-01-09']);
+    await db.prepare("DELETE FROM dead_letters WHERE job_id = 'extraction-2024-01-09'").run();
+  }, 90_000);
+
+  it('replays a dead letter as its own run and rebuilds what was made without it', async () => {
+    const journals = await mf.getR2Bucket('JOURNALS_BUCKET');
+    await journals.put('journals/2024-01-05.md', 'Found it after all.');
+
+    const replay = await start('/api/failures/replay');
+    const status = await waitForPhase(['complete', 'cancelled']);
+
+    expect(status.runId).toBe(replay.runId);
+    expect(status.phase).toBe('complete');
+    expect(status.processedEntries).toBe(1);
+    expect(status.failedJobs).toBe(0);
+    expect(status.usage.byJobType.weekly.calls).toBe(1);
+    expect(await getDeadLetters()).toEqual([]);
+  }, 90_000);
+
+  it('deletes extractions of entries that left the manifest', async () => {
+    // The day's second entry merged into the first
+    await putManifest(ENTRIES.filter((entry) => entry.entryId !== '2024-01-03_2'));
+
+    await start();
+    const status = await waitForPhase(['complete', 'cancelled']);
+    expect(status.phase).toBe('complete');
+
+    const db = await mf.getD1Database('DB');
+    const { results } = await db
+      .prepare('SELECT id FROM extractions ORDER BY date, sequence')
+      .all<{ id: string }>();
+    expect(results.map((row) => row.id)).toEqual(['extraction-2024-01-01', 'extraction-2024-01-03']);
+  }, 90_000);
+
+  it('retries and then dead-letters an entry whose model output never validates', async () => {
+    const entry = { entryId: '2024-01-06', date: '2024-01-06', text: 'Nothing the model can parse.' };
+    const journals = await mf.getR2Bucket('JOURNALS_BUCKET');
+    await journals.put(`journals/${entry.entryId}.md`, entry.text);
+    const hash = await promptHash([
+      { role: 'system', content: SYSTEM_PROMPTS.extraction },
+      { role: 'user', content: getExtractionPrompt(entry.date, entry.text, undefined) },
+    ]);
+    await journals.put(`fixtures/llm/${hash}.json`, '{"mood_score": "great"}');
+    await putManifest([...ENTRIES, entry]);
+
+    await start();
+    const status = await waitForPhase(['complete', 'cancelled']);
+
+    expect(status.phase).toBe('complete');
+    expect(status.failedJobs).toBe(1);
+    const deadLetters = await getDeadLetters();
+    expect(deadLetters.map((d) => d.jobId)).toEqual(['extraction-2024-01-06']);
+    expect(deadLetters[0].error).toMatch(/^Invalid extraction/);
+  }, 90_000);
+});
@@ -3,27 +3,396 @@
  *
  * Generates "Reflections: A Technical Analysis of Two Years" PDF
  * from synthesis data
+ *
+ * Everything runs offline: charts are rendered as inline SVG, and the PDF
+ * is printed by a locally installed Chrome/Chromium in headless mode.
+ *
+ * Usage: pnpm report [path/to/dashboard-data.json]
  */
 
-// TODO: Implement PDF generation
+import { readFileSync, writeFileSync, existsSync, mkdirSync, copyFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { spawnSync } from 'child_process';
+import type {
+  TwoYearSynthesis,
+  QuarterlyNotepad,
+  JournalExtraction,
+} from '../dashboard/src/lib/stores/types';
+
+// ============================================================================
+// Types
+// ============================================================================
 
 interface ReportConfig {
   title: string;
   author: string;
+  dataPath: string;
+  templatePath: string;
   outputPath: string;
 }
 
+// Only the parts of dashboard-data.json the report uses
+interface ReportData {
+  generatedAt: string | null;
+  metadata: { model: string } | null;
+  synthesis: TwoYearSynthesis | null;
+  quarterlyNotepads: QuarterlyNotepad[];
+  extractions: JournalExtraction[];
+}
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Matches chartColors in dashboard/src/lib/utils/colors.ts
+const CHART_COLORS = {
+  mood: 'rgb(168, 85, 247)',
+  energy: 'rgb(251, 191, 36)',
+  social: 'rgb(34, 197, 94)',
+};
+
+const CHROME_CANDIDATES = [
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  '/Applications/Chromium.app/Contents/MacOS/Chromium',
+  '/usr/bin/google-chrome',
+  '/usr/bin/google-chrome-stable',
+  '/usr/bin/chromium',
+  '/usr/bin/chromium-browser',
+  'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+];
+
+// ============================================================================
+// HTML Rendering
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Replace {{key}} with escaped text and {{{key}}} with raw HTML.
+ * Unknown keys render as empty strings.
+ */
+function renderTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .replace(/\{\{\{(\w+)\}\}\}/g, (_, key) => values[key] ?? '')
+    .replace(/\{\{(\w+)\}\}/g, (_, key) => escapeHtml(values[key] ?? ''));
+}
+
+/**
+ * Split text on blank lines into <p> blocks
+ */
+function paragraphs(text: string | undefined): string {
+  if (!text?.trim()) return '<p class="empty">Not available.</p>';
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => `<p>${escapeHtml(p.trim())}</p>`)
+    .join('\n');
+}
+
+function listItems(items: string[] | undefined): string {
+  if (!items || items.length === 0) return '<li class="empty">None recorded.</li>';
+  return items.map((item) => `<li>${escapeHtml(item)}</li>`).join('\n');
+}
+
+function renderMilestones(synthesis: TwoYearSynthesis | null): string {
+  if (!synthesis || synthesis.milestones.length === 0) {
+    return '<p class="empty">No milestones recorded.</p>';
+  }
+  return synthesis.milestones
+    .map(
+      (m) => `<div class="milestone">
+      <span class="milestone-date">${escapeHtml(m.date)}</span>
+      <span><strong>${escapeHtml(m.event)}</strong> — ${escapeHtml(m.impact)}</span>
+    </div>`
+    )
+    .join('\n');
+}
+
+function renderRelationshipArcs(synthesis: TwoYearSynthesis | null): string {
+  if (!synthesis || synthesis.relationship_arcs.length === 0) {
+    return '<p class="empty">No relationship arcs recorded.</p>';
+  }
+  return synthesis.relationship_arcs
+    .map(
+      (arc) =>
+        `<p><strong>${escapeHtml(arc.name)}:</strong> ${escapeHtml(arc.arc_summary)} ` +
+        `<em>(${escapeHtml(arc.current_status)})</em></p>`
+    )
+    .join('\n');
+}
+
+function renderSleepTrends(notepads: QuarterlyNotepad[]): string {
+  if (notepads.length === 0) return '<p class="empty">No sleep data available.</p>';
+  return `<ul>\n${notepads
+    .map((n) => `<li><strong>${escapeHtml(n.quarter)}:</strong> ${escapeHtml(n.sleep_trend)}</li>`)
+    .join('\n')}\n</ul>`;
+}
+
+function renderQuarterlyChapters(notepads: QuarterlyNotepad[]): string {
+  if (notepads.length === 0) return '<p class="empty">No quarterly notepads available.</p>';
+  return notepads
+    .map(
+      (n) => `<h3>${escapeHtml(n.quarter)}: ${escapeHtml(n.chapter_title)}</h3>
+${paragraphs(n.narrative)}`
+    )
+    .join('\n');
+}
+
+// ============================================================================
+// Charts (static SVG)
+// ============================================================================
+
+/**
+ * Line chart on a fixed 1-10 scale, one point per label
+ */
+function renderLineChart(labels: string[], series: ChartSeries[]): string {
+  const plotted = series.filter((s) => s.values.length > 0);
+  if (labels.length === 0 || plotted.length === 0) {
+    return '<p class="empty">No data available for this chart.</p>';
+  }
+
+  const width = 640;
+  const height = 240;
+  const pad = { top: 20, right: 20, bottom: 50, left: 40 };
+  const plotWidth = width - pad.left - pad.right;
+  const plotHeight = height - pad.top - pad.bottom;
+
+  const x = (i: number) =>
+    pad.left + (labels.length === 1 ? plotWidth / 2 : (i / (labels.length - 1)) * plotWidth);
+  const y = (v: number) => pad.top + plotHeight - ((v - 1) / 9) * plotHeight;
+
+  const grid = [2, 4, 6, 8, 10]
+    .map(
+      (v) => `<line x1="${pad.left}" x2="${width - pad.right}" y1="${y(v)}" y2="${y(v)}" stroke="#e5e7eb" />
+  <text x="${pad.left - 8}" y="${y(v) + 4}" font-size="10" text-anchor="end" fill="#6b7280">${v}</text>`
+    )
+    .join('\n  ');
+
+  const xLabels = labels
+    .map(
+      (label, i) =>
+        `<text x="${x(i)}" y="${height - pad.bottom + 16}" font-size="10" text-anchor="middle" fill="#6b7280">${escapeHtml(label)}</text>`
+    )
+    .join('\n  ');
+
+  const lines = plotted
+    .map((s) => {
+      const points = s.values.map((v, i) => `${x(i)},${y(v)}`).join(' ');
+      const dots = s.values
+        .map((v, i) => `<circle cx="${x(i)}" cy="${y(v)}" r="3" fill="${s.color}" />`)
+        .join('');
+      return `<polyline points="${points}" fill="none" stroke="${s.color}" stroke-width="2" />${dots}`;
+    })
+    .join('\n  ');
+
+  const legend = plotted
+    .map(
+      (s, i) =>
+        `<rect x="${pad.left + i * 120}" y="${height - 18}" width="10" height="10" fill="${s.color}" />
+  <text x="${pad.left + i * 120 + 16}" y="${height - 9}" font-size="11" fill="#1f2937">${escapeHtml(s.label)}</text>`
+    )
+    .join('\n  ');
+
+  return `<svg viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" role="img">
+  ${grid}
+  ${xLabels}
+  ${lines}
+  ${legend}
+</svg>`;
+}
+
+/**
+ * Labels for the *_by_quarter series: one per quarter that has entries,
+ * matching how the pipeline computes them
+ */
+function quarterLabels(data: ReportData): string[] {
+  const fromEntries = Array.from(
+    new Set(
+      data.extractions.map((e) => {
+        const [year, month] = e.date.split('-').map(Number);
+        return `${year}-Q${Math.floor((month - 1) / 3) + 1}`;
+      })
+    )
+  ).sort();
+
+  if (fromEntries.length > 0) return fromEntries;
+  return data.quarterlyNotepads.map((n) => n.quarter);
+}
+
+// ============================================================================
+// PDF Conversion
+// ============================================================================
+
+function findChrome(): string | null {
+  if (process.env.CHROME_PATH) {
+    return existsSync(process.env.CHROME_PATH) ? process.env.CHROME_PATH : null;
+  }
+  return CHROME_CANDIDATES.find((path) => existsSync(path)) ?? null;
+}
+
+function printToPdf(chromePath: string, htmlPath: string, pdfPath: string): void {
+  const result = spawnSync(
+    chromePath,
+    [
+      '--headless',
+      '--disable-gpu',
+      '--no-sandbox',
+      '--no-pdf-header-footer',
+      '--print-to-pdf-no-header',
+      `--print-to-pdf=${pdfPath}`,
+      pathToFileURL(htmlPath).href,
+    ],
+    { encoding: 'utf-8', timeout: 120_000 }
+  );
+
+  if (result.error) throw result.error;
+  if (result.status !== 0 || !existsSync(pdfPath)) {
+    throw new Error(`Chrome exited with status ${result.status}: ${result.stderr}`);
+  }
+}
+
+// ============================================================================
+// Main Report Pipeline
+// ============================================================================
+
+function buildValues(config: ReportConfig, data: ReportData): Record<string, string> {
+  const s = data.synthesis;
+  const dates = data.extractions.map((e) => e.date).sort();
+  const first = dates[0] ?? '';
+  const last = dates[dates.length - 1] ?? '';
+  const labels = quarterLabels(data);
+
+  return {
+    title: config.title,
+    year_range: first ? `${first.slice(0, 4)}-${last.slice(0, 4)}` : '2024-2025',
+    thesis: s?.thesis ?? '',
+    executive_summary: paragraphs(s?.executive_summary),
+    entry_count: String(data.extractions.length),
+    date_range: first ? `${first} to ${last}` : 'the journal archive',
+    model: data.metadata?.model ?? 'DeepSeek v3.2',
+    milestones: renderMilestones(s),
+
+    mood_energy_chart: renderLineChart(labels, [
+      { label: 'Happiness', color: CHART_COLORS.mood, values: s?.happiness_by_quarter ?? [] },
+      { label: 'Energy', color: CHART_COLORS.energy, values: s?.energy_by_quarter ?? [] },
+    ]),
+    sleep_trends: renderSleepTrends(data.quarterlyNotepads),
+    social_chart: renderLineChart(labels, [
+      {
+        label: 'Social engagement',
+        color: CHART_COLORS.social,
+        values: s?.social_engagement_by_quarter ?? [],
+      },
+    ]),
+
+    pre_autumn_summary: s?.pre_autumn_summary ?? '',
+    post_autumn_summary: s?.post_autumn_summary ?? '',
+    transition_narrative: s?.transition_narrative ?? '',
+    relationship_arcs: renderRelationshipArcs(s),
+    family_journey: paragraphs(s?.family_journey),
+
+    best_days: s?.weekly_patterns.best_days.join(', ') ?? '',
+    worst_days: s?.weekly_patterns.worst_days.join(', ') ?? '',
+    hrt_cycle_correlation: s?.weekly_patterns.hrt_cycle_correlation ?? '',
+    best_season: s?.seasonal_patterns.best_season ?? '',
+    worst_season: s?.seasonal_patterns.worst_season ?? '',
+    seasonal_notes: s?.seasonal_patterns.notes ?? '',
+    adderall_summary: s?.medication_correlations.adderall_period.summary ?? '',
+    atomoxetine_summary: s?.medication_correlations.atomoxetine_period.summary ?? '',
+    guanfacine_summary: s?.medication_correlations.guanfacine_period.summary ?? '',
+
+    strengths: listItems(s?.strengths_demonstrated),
+    challenges: listItems(s?.recurring_challenges),
+    growth_areas: listItems(s?.growth_areas),
+    unfinished_business: listItems(s?.unfinished_business),
+    quarterly_chapters: renderQuarterlyChapters(data.quarterlyNotepads),
+
+    generated_at: new Date(data.generatedAt ?? Date.now()).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    }),
+  };
+}
+
 async function main(): Promise<void> {
-  console.log('Generating PDF report...');
+  console.log('='.repeat(60));
+  console.log('Phase 5: PDF Report');
+  console.log('='.repeat(60));
+
+  const projectRoot = process.cwd();
+  const dashboardDataDir = join(projectRoot, 'dashboard', 'static', 'data');
+  const config: ReportConfig = {
+    title: 'Reflections: A Technical Analysis of Two Years',
+    author: 'Autumn',
+    dataPath: resolve(process.argv[2] ?? join(dashboardDataDir, 'dashboard-data.json')),
+    templatePath: join(projectRoot, 'reports', 'templates', 'report.html'),
+    outputPath: join(projectRoot, 'reports', 'output', 'report.pdf'),
+  };
 
-  // TODO: Implement:
   // 1. Load dashboard-data.json
+  console.log('\nLoading dashboard data...');
+  if (!existsSync(config.dataPath)) {
+    console.error(`\n[ERROR] Data file not found: ${config.dataPath}`);
+    console.error('Run `pnpm export` first to download dashboard-data.json.');
+    process.exit(1);
+  }
+  const data = JSON.parse(readFileSync(config.dataPath, 'utf-8')) as ReportData;
+
   // 2. Extract synthesis data
+  if (!data.synthesis) {
+    console.log('  [WARN] No synthesis in data; report sections will be empty');
+  }
+  console.log(`  Entries: ${data.extractions.length}`);
+  console.log(`  Quarterly notepads: ${data.quarterlyNotepads.length}`);
+
   // 3. Render HTML template with data
-  // 4. Convert HTML to PDF (using puppeteer or similar)
-  // 5. Save to output path
+  console.log('\nRendering HTML...');
+  const template = readFileSync(config.templatePath, 'utf-8');
+  const html = renderTemplate(template, buildValues(config, data));
+
+  const outputDir = join(projectRoot, 'reports', 'output');
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
+  }
+  const htmlPath = config.outputPath.replace(/\.pdf$/, '.html');
+  writeFileSync(htmlPath, html);
+  console.log(`  HTML: ${htmlPath}`);
+
+  // 4. Convert HTML to PDF
+  console.log('\nConverting to PDF...');
+  const chromePath = findChrome();
+  if (!chromePath) {
+    console.error('\n[ERROR] Chrome/Chromium not found. Set CHROME_PATH to its executable,');
+    console.error(`or open ${htmlPath} in a browser and print to PDF.`);
+    process.exit(1);
+  }
+  printToPdf(chromePath, htmlPath, config.outputPath);
+
+  // 5. Save to output path, and alongside the dashboard data for the /report page
+  if (existsSync(dashboardDataDir)) {
+    copyFileSync(config.outputPath, join(dashboardDataDir, 'report.pdf'));
+  }
 
-  console.log('PDF generation complete.');
+  console.log('\n' + '='.repeat(60));
+  console.log('PDF Generation Complete');
+  console.log('='.repeat(60));
+  console.log(`  Report: ${config.outputPath}`);
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error('\n[FATAL ERROR]', error);
+  process.exit(1);
+});
@@ -4,21 +4,252 @@
  * This script:
  * 1. Downloads dashboard-data.json from R2 (reflections-outputs bucket)
  * 2. Downloads PDF report if available
- * 3. Saves to local dashboard/static/data/ directory
+ * 3. Decrypts envelope-encrypted objects with ENCRYPTION_KEY
+ * 4. Puts real names back in place of pseudonyms (using the local
+ *    redaction-map.json written by preprocessing)
+ * 5. Saves to local dashboard/static/data/ directory
+ *
+ * Files are verified against the hash stored in object metadata (or the
+ * ETag when there is none) and skipped when the local copy is unchanged.
+ * Re-identified files never match the remote copy, so they are always
+ * fetched again.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { S3Client, GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { loadSecrets, createR2Client, getEncryptionKey, type Secrets } from './lib/r2-client';
+import { isEncrypted, decryptObject } from '../infrastructure/src/lib/envelope';
+import { loadRedactionMap, reidentify, type RedactionMap } from './lib/redaction';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ExportFile {
+  key: string;
+  required: boolean;
+  reidentify?: boolean; // JSON holding pseudonyms
+}
+
+interface RemoteInfo {
+  contentHash: string | null;
+  etag: string | null;
+}
+
+interface DownloadResult {
+  key: string;
+  status: 'downloaded' | 'unchanged' | 'missing' | 'failed';
+  error?: string;
+}
+
+// ============================================================================
+// Configuration & Helpers
+// ============================================================================
+
+const BUCKET_NAME = 'reflections-outputs';
+
+const EXPORT_FILES: ExportFile[] = [
+  { key: 'dashboard-data.json', required: true, reidentify: true },
+  { key: 'report.pdf', required: false },
+];
+
+function sha256(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function md5(data: Uint8Array): string {
+  return createHash('md5').update(data).digest('hex');
+}
+
+/**
+ * Fetch integrity info for an object, or null if it does not exist
+ */
+async function headObject(client: S3Client, key: string): Promise<RemoteInfo | null> {
+  try {
+    const response = await client.send(new HeadObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+    }));
+    return {
+      contentHash: response.Metadata?.['content-hash'] ?? null,
+      etag: response.ETag?.replace(/"/g, '') ?? null,
+    };
+  } catch (error) {
+    const name = (error as { name?: string }).name;
+    if (name === 'NotFound' || name === 'NoSuchKey') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check data against the stored SHA-256, falling back to the ETag, which is
+ * the MD5 of the body for single-part uploads. Multipart ETags contain a
+ * dash and can't be checked this way.
+ */
+function matchesRemote(data: Uint8Array, remote: RemoteInfo): boolean | null {
+  if (remote.contentHash) {
+    return sha256(data) === remote.contentHash;
+  }
+  if (remote.etag && !remote.etag.includes('-')) {
+    return md5(data) === remote.etag;
+  }
+  return null;
+}
+
+/**
+ * Download a single file from R2 into the output directory
  */
+async function downloadFile(
+  client: S3Client,
+  file: ExportFile,
+  outputDir: string,
+  redactionMap: RedactionMap | null,
+  encryptionKey: string | null
+): Promise<DownloadResult> {
+  const { key } = file;
+  const localPath = join(outputDir, key);
+
+  try {
+    const remote = await headObject(client, key);
+    if (!remote) {
+      return { key, status: 'missing' };
+    }
+
+    // Skip if the local copy already matches
+    if (existsSync(localPath) && matchesRemote(readFileSync(localPath), remote) === true) {
+      return { key, status: 'unchanged' };
+    }
+
+    const response = await client.send(new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+    }));
+    if (!response.Body) {
+      return { key, status: 'failed', error: 'Empty response body' };
+    }
+    const body = await response.Body.transformToByteArray();
+
+    // The stored hash is of the plaintext; the ETag only covers the
+    // ciphertext, but GCM has already authenticated that
+    const encrypted = isEncrypted(body);
+    if (encrypted && !encryptionKey) {
+      return { key, status: 'failed', error: 'Encrypted, but ENCRYPTION_KEY is not in secrets.json' };
+    }
+    const data = encrypted ? await decryptObject(body, encryptionKey!, key) : body;
+
+    const verified = matchesRemote(data, encrypted ? { ...remote, etag: null } : remote);
+    if (verified === false) {
+      return { key, status: 'failed', error: 'Integrity check failed (hash mismatch)' };
+    }
+    if (verified === null && !encrypted) {
+      console.log(`  [WARN] ${key}: no hash or usable ETag, integrity not verified`);
+    }
+
+    if (file.reidentify && redactionMap) {
+      const json = JSON.parse(new TextDecoder().decode(data));
+      writeFileSync(localPath, JSON.stringify(reidentify(json, redactionMap)));
+    } else {
+      writeFileSync(localPath, data);
+    }
+    return { key, status: 'downloaded' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { key, status: 'failed', error: message };
+  }
+}
 
-// TODO: Implement R2 download logic
+// ============================================================================
+// Main Export Pipeline
+// ============================================================================
 
 async function main(): Promise<void> {
-  console.log('Exporting data from R2...');
+  console.log('='.repeat(60));
+  console.log('Phase 3: Export from R2');
+  console.log('='.repeat(60));
+
+  const projectRoot = process.cwd();
+  const secretsPath = join(projectRoot, 'secrets.json');
+  const outputDir = join(projectRoot, 'dashboard', 'static', 'data');
+  const redactionMapPath = join(projectRoot, 'redaction-map.json');
+
+  // Load secrets
+  console.log('\nLoading credentials...');
+  let secrets: Secrets;
+  try {
+    secrets = loadSecrets(secretsPath);
+    console.log('  Credentials loaded successfully');
+  } catch (error) {
+    console.error(`\n[ERROR] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
+    console.log(`Created output directory: ${outputDir}`);
+  }
+
+  const redactionMap = existsSync(redactionMapPath) ? loadRedactionMap(redactionMapPath) : null;
+  console.log(
+    redactionMap
+      ? `  Re-identifying with ${redactionMapPath}`
+      : '  No redaction-map.json; pseudonyms are kept as exported'
+  );
+
+  const encryptionKey = getEncryptionKey(secrets);
+
+  // Create R2 client
+  console.log('\nConnecting to R2...');
+  const client = createR2Client(secrets);
+  console.log(`  Bucket: ${BUCKET_NAME}`);
+
+  // Download files
+  console.log(`\nDownloading to ${outputDir}...`);
+  let failed = 0;
+
+  for (const file of EXPORT_FILES) {
+    const result = await downloadFile(client, file, outputDir, redactionMap, encryptionKey);
+
+    switch (result.status) {
+      case 'downloaded':
+        console.log(`  [OK]   ${result.key}`);
+        break;
+      case 'unchanged':
+        console.log(`  [SKIP] ${result.key} (unchanged)`);
+        break;
+      case 'missing':
+        if (file.required) {
+          console.error(`  [MISS] ${result.key} not found in R2`);
+          failed++;
+        } else {
+          console.log(`  [SKIP] ${result.key} (not generated yet)`);
+        }
+        break;
+      case 'failed':
+        console.error(`  [FAIL] ${result.key}: ${result.error}`);
+        failed++;
+        break;
+    }
+  }
+
+  // Summary
+  console.log('\n' + '='.repeat(60));
+  console.log('Export Complete');
+  console.log('='.repeat(60));
 
-  // TODO: Implement:
-  // - Load secrets.json for R2 credentials
-  // - Download dashboard-data.json
-  // - Download report.pdf if exists
-  // - Save to dashboard/static/data/
+  if (failed > 0) {
+    console.log('\n[WARNING] Some downloads failed. Review errors above.');
+    console.log('If dashboard-data.json is missing, trigger an export with POST /api/export.');
+    process.exit(1);
+  }
 
-  console.log('Export complete.');
+  console.log('\nNext step: Run `pnpm dev:dashboard` to view the dashboard');
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error('\n[FATAL ERROR]', error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { BUILTIN_PATTERNS, extractDate, isCalendarDate, resolveDatePattern } from './date-patterns';
+
+const defaults = [BUILTIN_PATTERNS.iso, BUILTIN_PATTERNS.long];
+
+describe('built-in patterns', () => {
+  it.each([
+    ['2024-11-16.md', '2024-11-16'],
+    ['November 16, 2024.md', '2024-11-16'],
+    ['Nov. 3rd, 2024.md', '2024-11-03'],
+    ['nov 3 2024.md', '2024-11-03'],
+  ])('%s → %s', (filename, date) => {
+    expect(extractDate(filename, defaults)).toBe(date);
+  });
+
+  it('matches compact dates only when asked to', () => {
+    expect(extractDate('20241116.md', defaults)).toBeNull();
+    expect(extractDate('20241116.md', [BUILTIN_PATTERNS.compact])).toBe('2024-11-16');
+  });
+
+  it('ignores files that are not dated entries', () => {
+    expect(extractDate('README.md', defaults)).toBeNull();
+    expect(extractDate('2024-11-16.txt', defaults)).toBeNull();
+    expect(extractDate('Movember 16, 2024.md', defaults)).toBeNull();
+  });
+});
+
+describe('calendar validation', () => {
+  it.each(['2024-02-31.md', '2023-02-29.md', '2024-13-01.md', '2024-04-31.md', '2024-01-00.md'])(
+    'rejects %s',
+    (filename) => {
+      expect(extractDate(filename, defaults)).toBeNull();
+    }
+  );
+
+  it('accepts leap days in leap years', () => {
+    expect(extractDate('2024-02-29.md', defaults)).toBe('2024-02-29');
+    expect(extractDate('February 29, 2024.md', defaults)).toBe('2024-02-29');
+  });
+
+  it('checks frontmatter dates and --since/--until the same way', () => {
+    expect(isCalendarDate('2024-02-29')).toBe(true);
+    expect(isCalendarDate('2024-02-30')).toBe(false);
+    expect(isCalendarDate('2024-2-3')).toBe(false);
+    expect(isCalendarDate('2024-02-03T10:00')).toBe(false);
+  });
+
+  it('rejects impossible dates from custom patterns', () => {
+    const dotted = resolveDatePattern('^(?<day>\\d{2})\\.(?<month>\\d{2})\\.(?<year>\\d{4})');
+    expect(dotted.parse('31.02.2024.md')).toBeNull();
+    expect(dotted.parse('28.02.2024.md')).toBe('2024-02-28');
+  });
+});
+
+describe('resolveDatePattern', () => {
+  it('returns built-ins by name', () => {
+    expect(resolveDatePattern('iso')).toBe(BUILTIN_PATTERNS.iso);
+  });
+
+  it('requires the year, month and day groups', () => {
+    expect(() => resolveDatePattern('^(?<year>\\d{4})-(?<month>\\d{2})')).toThrow(/named groups/);
+  });
+
+  it('reports invalid regular expressions', () => {
+    expect(() => resolveDatePattern('(?<year>')).toThrow(/Invalid date pattern/);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Filename date patterns for preprocessing
+ *
+ * Each pattern turns a journal filename into a YYYY-MM-DD date or null.
+ * Matches that aren't real calendar dates (2024-02-31) are null too.
+ * Built-in patterns are referenced by name; anything else is treated as a
+ * regular expression with named groups `year`, `month` (number or English
+ * name) and `day`, e.g. "^(?<day>\\d{2})\\.(?<month>\\d{2})\\.(?<year>\\d{4})".
+ */
+
+export interface DatePattern {
+  name: string;
+  example: string;
+  parse(filename: string): string | null;
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const MONTH_NAME = '(?<month>[A-Za-z]+)';
+
+export const BUILTIN_PATTERNS: Record<string, DatePattern> = {
+  iso: regexPattern('iso', '2024-11-16.md', /^(?<year>\d{4})-(?<month>\d{2})-(?<day>\d{2})\.md$/),
+  long: regexPattern(
+    'long',
+    'November 16, 2024.md',
+    new RegExp(`^${MONTH_NAME}\\.? (?<day>\\d{1,2})(?:st|nd|rd|th)?,? (?<year>\\d{4})\\.md$`)
+  ),
+  compact: regexPattern('compact', '20241116.md', /^(?<year>\d{4})(?<month>\d{2})(?<day>\d{2})\.md$/),
+};
+
+export const DEFAULT_DATE_PATTERNS = ['iso', 'long'];
+
+/**
+ * Resolve a pattern name or custom regular expression
+ */
+export function resolveDatePattern(spec: string): DatePattern {
+  const builtin = BUILTIN_PATTERNS[spec];
+  if (builtin) return builtin;
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(spec);
+  } catch (error) {
+    throw new Error(`Invalid date pattern "${spec}": ${error instanceof Error ? error.message : error}`);
+  }
+  for (const group of ['year', 'month', 'day']) {
+    if (!spec.includes(`(?<${group}>`)) {
+      throw new Error(
+        `Date pattern "${spec}" needs named groups year, month and day ` +
+        `(or use one of: ${Object.keys(BUILTIN_PATTERNS).join(', ')})`
+      );
+    }
+  }
+  return regexPattern(spec, spec, regex);
+}
+
+/**
+ * First date any of the patterns finds in the filename
+ */
+export function extractDate(filename: string, patterns: DatePattern[]): string | null {
+  for (const pattern of patterns) {
+    const date = pattern.parse(filename);
+    if (date) return date;
+  }
+  return null;
+}
+
+function regexPattern(name: string, example: string, regex: RegExp): DatePattern {
+  return {
+    name,
+    example,
+    parse(filename) {
+      const groups = filename.match(regex)?.groups;
+      if (!groups) return null;
+      const month = parseMonth(groups.month);
+      const day = Number(groups.day);
+      if (!month || !day) return null;
+      const date = `${groups.year}-${pad(month)}-${pad(day)}`;
+      return isCalendarDate(date) ? date : null;
+    },
+  };
+}
+
+/**
+ * "03", "3", "March" or "Mar" → 3
+ */
+function parseMonth(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    const month = Number(value);
+    return month >= 1 && month <= 12 ? month : null;
+  }
+  const lower = value.toLowerCase();
+  const index = MONTHS.findIndex((m) => lower.length >= 3 && m.startsWith(lower));
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * True for a real YYYY-MM-DD date: it must survive a round trip through Date
+ * unchanged, so invalid days, which roll over (2024-02-31 → 2024-03-02), and
+ * any other format fail the comparison
+ */
+export function isCalendarDate(date: string): boolean {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { extractMetadata, getCreatedAt, getFrontmatterDate, parseFrontmatter } from './frontmatter';
+
+describe('parseFrontmatter', () => {
+  it('splits YAML from the body', () => {
+    const { frontmatter, body, error } = parseFrontmatter('---\nmood: 7\ntags: [a, b]\n---\nHello');
+
+    expect(frontmatter).toEqual({ mood: 7, tags: ['a', 'b'] });
+    expect(body).toBe('Hello');
+    expect(error).toBeNull();
+  });
+
+  it('leaves content without frontmatter as the body', () => {
+    expect(parseFrontmatter('Just text')).toEqual({ frontmatter: {}, body: 'Just text', error: null });
+  });
+
+  it('reports invalid YAML instead of throwing', () => {
+    const { frontmatter, body, error } = parseFrontmatter('---\nmood: [7\n---\nHello');
+
+    expect(frontmatter).toEqual({});
+    expect(body).toBe('Hello');
+    expect(error).toEqual(expect.any(String));
+  });
+});
+
+describe('extractMetadata', () => {
+  it('reads fields under any alias and key spelling', () => {
+    expect(
+      extractMetadata({
+        'Mood Score': '3/5',
+        energy_level: 8,
+        'Hours-Slept': '7h30m',
+        Where: { city: 'Boston', state: 'MA' },
+        weather: ' Rainy ',
+        tag: '#work, #family',
+      })
+    ).toEqual({
+      mood: 6,
+      energy: 8,
+      sleepHours: 7.5,
+      location: 'Boston, MA',
+      weather: 'Rainy',
+      tags: ['work', 'family'],
+    });
+  });
+
+  it.each([
+    ['7', 7],
+    ['7/10', 7],
+    ['0', 1],
+    ['11', undefined],
+    ['great', undefined],
+  ])('mood %j → %s', (mood, score) => {
+    expect(extractMetadata({ mood }).mood).toBe(score);
+  });
+
+  it('drops fields that are missing or unreadable', () => {
+    expect(extractMetadata({ sleep: 'lots', tags: [], location: '', title: 'x' })).toEqual({});
+  });
+
+  it('deduplicates tags', () => {
+    expect(extractMetadata({ tags: ['a', '#a', 2024] }).tags).toEqual(['a', '2024']);
+  });
+});
+
+describe('dates', () => {
+  it('reads the frontmatter date as YYYY-MM-DD', () => {
+    expect(getFrontmatterDate({ date: new Date('2024-11-16T00:00:00Z') })).toBe('2024-11-16');
+    expect(getFrontmatterDate({ date: '2024-11-16 10:00' })).toBe('2024-11-16');
+    expect(getFrontmatterDate({})).toBeUndefined();
+  });
+
+  it("parses Obsidian's long created date", () => {
+    const created = getCreatedAt({ 'date created': 'Saturday, November 16th 2024, 10:23:03 am' });
+    expect(created).toBe(new Date(2024, 10, 16, 10, 23, 3).getTime());
+    expect(getCreatedAt({ created: 'sometime' })).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * YAML frontmatter for preprocessing
+ *
+ * Parses the frontmatter block with a full YAML parser and picks out the
+ * fields the extractor can trust over its own inference (mood, energy,
+ * sleep) or use as context (tags, location, weather).
+ */
+
+import { parse } from 'yaml';
+
+/**
+ * Aligned with EntryMetadata in infrastructure/src/schemas/types.ts
+ */
+export interface EntryMetadata {
+  tags?: string[];
+  mood?: number; // 1-10
+  energy?: number; // 1-10
+  sleepHours?: number;
+  location?: string;
+  weather?: string;
+}
+
+export interface Frontmatter {
+  frontmatter: Record<string, unknown>;
+  body: string;
+  error: string | null; // Set when the block exists but is not valid YAML
+}
+
+// Keys are matched case-insensitively with spaces, dashes and underscores ignored
+const FIELD_ALIASES: Record<keyof EntryMetadata, string[]> = {
+  tags: ['tags', 'tag'],
+  mood: ['mood', 'moodscore', 'moodrating'],
+  energy: ['energy', 'energylevel'],
+  sleepHours: ['sleep', 'sleephours', 'hoursslept'],
+  location: ['location', 'place', 'where'],
+  weather: ['weather'],
+};
+
+const CREATED_KEYS = ['datecreated', 'created', 'createdat'];
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/**
+ * Split markdown into parsed frontmatter and body. Invalid YAML leaves the
+ * frontmatter empty and reports the parser error.
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { frontmatter: {}, body: content, error: null };
+  }
+
+  const body = content.slice(match[0].length);
+  try {
+    const parsed: unknown = parse(match[1]);
+    const frontmatter =
+      parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : {};
+    return { frontmatter, body, error: null };
+  } catch (error) {
+    return { frontmatter: {}, body, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Pick EntryMetadata out of frontmatter. Fields that are missing or can't
+ * be read are left out rather than guessed.
+ */
+export function extractMetadata(frontmatter: Record<string, unknown>): EntryMetadata {
+  const lookup = new Map<string, unknown>();
+  for (const [key, value] of Object.entries(frontmatter)) {
+    lookup.set(normalizeKey(key), value);
+  }
+  const field = (name: keyof EntryMetadata): unknown => {
+    for (const alias of FIELD_ALIASES[name]) {
+      if (lookup.has(alias)) return lookup.get(alias);
+    }
+    return undefined;
+  };
+
+  const metadata: EntryMetadata = {
+    tags: readTags(field('tags')),
+    mood: readScore(field('mood')),
+    energy: readScore(field('energy')),
+    sleepHours: readHours(field('sleepHours')),
+    location: readText(field('location')),
+    weather: readText(field('weather')),
+  };
+
+  // Drop unset fields so the manifest only carries what was recorded
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as EntryMetadata;
+}
+
+/**
+ * Frontmatter `date`, as YYYY-MM-DD text, if present
+ */
+export function getFrontmatterDate(frontmatter: Record<string, unknown>): string | undefined {
+  const date = frontmatter.date;
+  if (date instanceof Date) return date.toISOString().slice(0, 10);
+  if (typeof date === 'string' && date.trim() !== '') return date.trim().slice(0, 10);
+  return undefined;
+}
+
+/**
+ * When the entry was written, from `date created` / `created` (including
+ * Obsidian's "Saturday, November 16th 2024, 10:23:03 am"), as epoch ms
+ */
+export function getCreatedAt(frontmatter: Record<string, unknown>): number | null {
+  for (const [key, value] of Object.entries(frontmatter)) {
+    if (!CREATED_KEYS.includes(normalizeKey(key))) continue;
+    if (value instanceof Date) return value.getTime();
+    if (typeof value !== 'string') continue;
+    const time = Date.parse(
+      value
+        .replace(/^[A-Za-z]+,\s*/, '') // Weekday
+        .replace(/(\d)(st|nd|rd|th)\b/, '$1')
+    );
+    if (!Number.isNaN(time)) return time;
+  }
+  return null;
+}
+
+// ============================================================================
+// Field readers
+// ============================================================================
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * List or comma/space separated string; "#" prefixes dropped
+ */
+function readTags(value: unknown): string[] | undefined {
+  const raw = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(/[,\s]+/)
+      : [];
+  const tags = raw
+    .filter((tag): tag is string | number => typeof tag === 'string' || typeof tag === 'number')
+    .map((tag) => String(tag).trim().replace(/^#/, ''))
+    .filter((tag) => tag !== '');
+  return tags.length > 0 ? Array.from(new Set(tags)) : undefined;
+}
+
+/**
+ * 7, "7", "7/10" or "3/5" → score on a 1-10 scale
+ */
+function readScore(value: unknown): number | undefined {
+  let score: number;
+  if (typeof value === 'number') {
+    score = value;
+  } else if (typeof value === 'string') {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:\/\s*(\d+))?$/);
+    if (!match) return undefined;
+    const scale = match[2] ? Number(match[2]) : 10;
+    if (scale <= 0) return undefined;
+    score = (Number(match[1]) / scale) * 10;
+  } else {
+    return undefined;
+  }
+  if (!Number.isFinite(score) || score < 0 || score > 10) return undefined;
+  return Math.max(1, Math.round(score * 10) / 10);
+}
+
+/**
+ * 7.5, "7.5", "7.5h" or "7h30m" → hours
+ */
+function readHours(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value >= 0 && value <= 24 ? value : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*h?(?:\s*(\d+)\s*m)?$/i);
+  if (!match) return undefined;
+  const hours = Number(match[1]) + (match[2] ? Number(match[2]) / 60 : 0);
+  return hours <= 24 ? Math.round(hours * 100) / 100 : undefined;
+}
+
+/**
+ * Text, or the values of a map such as `location: { city: Boston, state: MA }`
+ */
+function readText(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim() !== '') return value.trim();
+  if (typeof value === 'number') return String(value);
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const parts = Object.values(value).map(readText).filter((part) => part !== undefined);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+  return undefined;
+}
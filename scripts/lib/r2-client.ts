@@ -0,0 +1,57 @@
+/**
+ * Shared R2 access for local scripts
+ *
+ * Loads credentials from secrets.json and builds an S3-compatible client
+ * pointed at the account's R2 endpoint. ENCRYPTION_KEY is optional; see
+ * infrastructure/src/lib/envelope.ts.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { S3Client } from '@aws-sdk/client-s3';
+
+export interface Secrets {
+  CLOUDFLARE_ACCOUNT_ID: string;
+  R2_ACCESS_KEY_ID: string;
+  R2_SECRET_ACCESS_KEY: string;
+  ENCRYPTION_KEY?: string;
+}
+
+export function loadSecrets(secretsPath: string): Secrets {
+  if (!existsSync(secretsPath)) {
+    throw new Error(
+      `Secrets file not found: ${secretsPath}\n` +
+      `Copy secrets_template.json to secrets.json and fill in your credentials.`
+    );
+  }
+
+  const content = readFileSync(secretsPath, 'utf-8');
+  const secrets = JSON.parse(content) as Secrets;
+
+  const required = ['CLOUDFLARE_ACCOUNT_ID', 'R2_ACCESS_KEY_ID', 'R2_SECRET_ACCESS_KEY'] as const;
+  for (const key of required) {
+    if (!secrets[key] || secrets[key].includes('your-')) {
+      throw new Error(`Missing or invalid value for ${key} in secrets.json`);
+    }
+  }
+
+  return secrets;
+}
+
+/**
+ * The master key, or null when encryption is not configured
+ */
+export function getEncryptionKey(secrets: Secrets): string | null {
+  const key = secrets.ENCRYPTION_KEY?.trim();
+  return key && !key.includes('your-') ? key : null;
+}
+
+export function createR2Client(secrets: Secrets): S3Client {
+  return new S3Client({
+    region: 'auto',
+    endpoint: `https://${secrets.CLOUDFLARE_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+    credentials: {
+      accessKeyId: secrets.R2_ACCESS_KEY_ID,
+      secretAccessKey: secrets.R2_SECRET_ACCESS_KEY,
+    },
+  });
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createRedactor,
+  DEFAULT_REDACTION,
+  reidentify,
+  type RedactionConfig,
+  type RedactionMap,
+} from './redaction';
+
+const config: RedactionConfig = {
+  ...DEFAULT_REDACTION,
+  people: { 'Jane Doe': ['Jane', 'JD'], Sam: [] },
+  places: { 'Maple Street': [] },
+  peopleFolders: ['People'],
+};
+
+function setup(overrides: Partial<RedactionConfig> = {}) {
+  const map: RedactionMap = { people: {}, places: {} };
+  return { map, redactor: createRedactor({ ...config, ...overrides }, map) };
+}
+
+describe('names', () => {
+  it('gives each person and place a stable pseudonym', () => {
+    const { map, redactor } = setup();
+
+    expect(redactor.redact('Jane Doe met Sam on Maple Street. Jane was late.')).toBe(
+      'Person 1 met Person 2 on Place 1. Person 1 was late.'
+    );
+    expect(map).toEqual({
+      people: { 'Jane Doe': 'Person 1', Sam: 'Person 2' },
+      places: { 'Maple Street': 'Place 1' },
+    });
+    expect(redactor.counts.names).toBe(4);
+  });
+
+  it('matches any case', () => {
+    const { redactor } = setup();
+
+    expect(redactor.redact('jane, JANE and jd')).toBe('Person 1, Person 1 and Person 1');
+  });
+
+  it('matches whole words only', () => {
+    const { redactor } = setup();
+
+    const text = 'Samuel sampled Janet’s jam; Sam2 too';
+    expect(redactor.redact(text)).toBe(text);
+  });
+
+  it('replaces links to listed names and folders, display text included', () => {
+    const { redactor } = setup();
+
+    expect(redactor.redact('[[jane doe|my friend]] and [[People/Alex]] at [[Notes/Ideas]]')).toBe(
+      '[[Person 1]] and [[Person 2]] at [[Notes/Ideas]]'
+    );
+  });
+
+  it('redacts plain mentions of names only linked through a folder', () => {
+    const { redactor } = setup();
+
+    expect(redactor.redact('Alex called. Later I saw [[People/Alex]]. alex is well.')).toBe(
+      'Person 1 called. Later I saw [[Person 1]]. Person 1 is well.'
+    );
+    expect(redactor.redact('Alex again')).toBe('Person 1 again');
+  });
+
+  it('remembers folder-linked names from earlier runs', () => {
+    const map: RedactionMap = { people: { Alex: 'Person 1' }, places: {} };
+
+    expect(createRedactor(config, map).redact('Met Alex')).toBe('Met Person 1');
+  });
+
+  it('keeps pseudonyms from an existing map', () => {
+    const map: RedactionMap = { people: { Sam: 'Person 7' }, places: {} };
+
+    expect(createRedactor(config, map).redact('Sam and Jane')).toBe('Person 7 and Person 2');
+  });
+});
+
+describe('contacts', () => {
+  it.each([
+    ['Mail jane.doe+notes@example.co.uk today', 'Mail [email] today'],
+    ['Call (555) 123-4567 or +1 555.123.4567', 'Call [phone] or [phone]'],
+    ['Moved to 42 Elm Grove Road', 'Moved to [address]'],
+  ])('masks %s', (text, expected) => {
+    expect(setup().redactor.redact(text)).toBe(expected);
+  });
+
+  it('leaves contact details alone when turned off', () => {
+    expect(setup({ contacts: false }).redactor.redact('jane@example.com')).toBe('Person 1@example.com');
+  });
+});
+
+describe('reidentify', () => {
+  it('round-trips redacted text back to the canonical names', () => {
+    const { map, redactor } = setup();
+    const original = {
+      summary: 'Jane Doe and Sam walked down Maple Street.',
+      people: ['jane', 'Sam'],
+    };
+    const redacted = {
+      summary: redactor.redact(original.summary),
+      people: original.people.map(redactor.redact),
+    };
+
+    expect(JSON.stringify(redacted)).not.toMatch(/Jane|Sam|Maple/i);
+    expect(reidentify(redacted, map)).toEqual({
+      summary: 'Jane Doe and Sam walked down Maple Street.',
+      people: ['Jane Doe', 'Sam'],
+    });
+  });
+
+  it('does not confuse Person 1 with Person 12', () => {
+    const map: RedactionMap = {
+      people: Object.fromEntries(
+        Array.from({ length: 12 }, (_, i) => [`Name ${i + 1}`, `Person ${i + 1}`])
+      ),
+      places: {},
+    };
+
+    expect(reidentify({ 'Person 12': 'Person 1' }, map)).toEqual({ 'Name 12': 'Name 1' });
+  });
+});
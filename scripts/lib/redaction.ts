@@ -0,0 +1,236 @@
+/**
+ * PII redaction for preprocessing
+ *
+ * Replaces configured people and places with stable pseudonyms ("Person 3",
+ * "Place 1") and masks contact details before anything leaves the machine.
+ * Pseudonyms are kept in a local-only map file so they stay the same across
+ * runs (entries that didn't change keep their content hash) and so exported
+ * results can be re-identified locally.
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+
+export type RedactionKind = 'people' | 'places';
+
+/**
+ * `redaction` in preprocess.config.json
+ */
+export interface RedactionConfig {
+  people: Record<string, string[]>; // Real name → aliases that mean the same person
+  places: Record<string, string[]>;
+  peopleFolders: string[]; // [[Folder/Name]] links under these folders are people...
+  placeFolders: string[]; // ...or places, even when not listed above
+  contacts: boolean; // Mask emails, phone numbers and street addresses
+}
+
+/**
+ * Real name → pseudonym, per kind. Never uploaded.
+ */
+export interface RedactionMap {
+  people: Record<string, string>;
+  places: Record<string, string>;
+}
+
+export interface RedactionCounts {
+  names: number;
+  contacts: number;
+}
+
+export interface Redactor {
+  redact(text: string): string;
+  counts: RedactionCounts;
+}
+
+export const DEFAULT_REDACTION: RedactionConfig = {
+  people: {},
+  places: {},
+  peopleFolders: [],
+  placeFolders: [],
+  contacts: true,
+};
+
+const PSEUDONYM_LABELS: Record<RedactionKind, string> = {
+  people: 'Person',
+  places: 'Place',
+};
+
+// Masks carry no reverse mapping; the original values are simply dropped
+const CONTACT_PATTERNS: { mask: string; pattern: RegExp }[] = [
+  { mask: '[email]', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  {
+    mask: '[phone]',
+    pattern: /(?<![\w-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?![\w-])/g,
+  },
+  {
+    mask: '[address]',
+    pattern:
+      /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle)\b/g,
+  },
+];
+
+const WIKI_LINK_PATTERN = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+
+// ============================================================================
+// Map File
+// ============================================================================
+
+export function loadRedactionMap(path: string): RedactionMap {
+  if (!existsSync(path)) {
+    return { people: {}, places: {} };
+  }
+  const map = JSON.parse(readFileSync(path, 'utf-8')) as Partial<RedactionMap>;
+  return { people: map.people ?? {}, places: map.places ?? {} };
+}
+
+export function saveRedactionMap(path: string, map: RedactionMap): void {
+  writeFileSync(path, JSON.stringify(map, null, 2) + '\n');
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Build a redactor over the config. New names are added to `map` as they
+ * are first seen; save it afterwards.
+ */
+export function createRedactor(config: RedactionConfig, map: RedactionMap): Redactor {
+  const counts: RedactionCounts = { names: 0, contacts: 0 };
+
+  const pseudonymFor = (kind: RedactionKind, name: string): string => {
+    const existing = map[kind][name];
+    if (existing) return existing;
+    const pseudonym = `${PSEUDONYM_LABELS[kind]} ${Object.keys(map[kind]).length + 1}`;
+    map[kind][name] = pseudonym;
+    return pseudonym;
+  };
+
+  // Every spelling, lowercased → [kind, real name]. Matching ignores case so
+  // "jane" and "JANE" are caught too; longest first so "Jane Doe" wins over "Jane".
+  // Names first seen as folder links (here or in an earlier run, so already
+  // in the map) are matched as plain text too.
+  const spellings = new Map<string, [RedactionKind, string]>();
+  for (const kind of ['people', 'places'] as const) {
+    for (const [name, aliases] of Object.entries(config[kind])) {
+      for (const spelling of [name, ...aliases]) {
+        spellings.set(spelling.toLowerCase(), [kind, name]);
+      }
+    }
+  }
+  // Rebuilt when a new name is learned
+  let namePattern: RegExp | null = null;
+  const learn = (kind: RedactionKind, name: string): void => {
+    if (spellings.has(name.toLowerCase())) return;
+    spellings.set(name.toLowerCase(), [kind, name]);
+    namePattern = null;
+  };
+  for (const kind of ['people', 'places'] as const) {
+    for (const name of Object.keys(map[kind])) learn(kind, name);
+  }
+  const getNamePattern = (): RegExp | null => {
+    if (!namePattern && spellings.size > 0) {
+      namePattern = new RegExp(
+        `(?<![\\p{L}\\p{N}])(?:${Array.from(spellings.keys())
+          .sort((a, b) => b.length - a.length)
+          .map(escapeRegExp)
+          .join('|')})(?![\\p{L}\\p{N}])`,
+        'giu'
+      );
+    }
+    return namePattern;
+  };
+
+  const linkKind = (path: string): [RedactionKind, string] | null => {
+    const parts = path.trim().split('/');
+    const target = parts[parts.length - 1];
+    const known = spellings.get(target.toLowerCase());
+    if (known) return known;
+    const folders = parts.slice(0, -1);
+    if (folders.some((folder) => config.peopleFolders.includes(folder))) return ['people', target];
+    if (folders.some((folder) => config.placeFolders.includes(folder))) return ['places', target];
+    return null;
+  };
+
+  const redact = (text: string): string => {
+    let result = text;
+
+    // 1. Contact details, first so a name inside an email can't break the match
+    if (config.contacts) {
+      for (const { mask, pattern } of CONTACT_PATTERNS) {
+        result = result.replace(pattern, () => {
+          counts.contacts++;
+          return mask;
+        });
+      }
+    }
+
+    // 2. Learn names from folder links first, so a plain mention before the
+    // link is caught as well
+    for (const [, path] of result.matchAll(WIKI_LINK_PATTERN)) {
+      const resolved = linkKind(path);
+      if (resolved) learn(...resolved);
+    }
+
+    // 3. Links to people/places become [[Pseudonym]]; display text goes too
+    result = result.replace(WIKI_LINK_PATTERN, (match, path: string) => {
+      const resolved = linkKind(path);
+      if (!resolved) return match;
+      counts.names++;
+      return `[[${pseudonymFor(...resolved)}]]`;
+    });
+
+    // 4. Plain mentions of known names and aliases
+    const pattern = getNamePattern();
+    if (pattern) {
+      result = result.replace(pattern, (match) => {
+        counts.names++;
+        return pseudonymFor(...spellings.get(match.toLowerCase())!);
+      });
+    }
+
+    return result;
+  };
+
+  return { redact, counts };
+}
+
+// ============================================================================
+// Re-identification
+// ============================================================================
+
+/**
+ * Swap pseudonyms back to real names in every string of a JSON value
+ */
+export function reidentify<T>(value: T, map: RedactionMap): T {
+  const names = new Map<string, string>();
+  for (const kind of ['people', 'places'] as const) {
+    for (const [name, pseudonym] of Object.entries(map[kind])) {
+      names.set(pseudonym, name);
+    }
+  }
+  if (names.size === 0) return value;
+
+  // Longest first and digit-bounded, so "Person 1" never matches inside "Person 12"
+  const pattern = new RegExp(
+    `(?:${Array.from(names.keys())
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|')})(?!\\d)`,
+    'g'
+  );
+
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') return node.replace(pattern, (match) => names.get(match)!);
+    if (Array.isArray(node)) return node.map(walk);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, child]) => [walk(key), walk(child)]));
+    }
+    return node;
+  };
+
+  return walk(value) as T;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -2,27 +2,67 @@
  * Phase 0: Preprocess journal entries
  *
  * This script handles:
- * 1. Scan Journal/ directories
+ * 1. Scan the configured source directories
  * 2. Strip Meta Bind blocks
- * 3. Normalize internal links ([[Folder/Person]] → [[Person]])
- * 4. Validate/fix dates
- * 5. Create manifest.json with all entry metadata
+ * 3. Pseudonymize people and places, mask contact details
+ * 4. Normalize internal links ([[Folder/Person]] → [[Person]])
+ * 5. Validate/fix dates
+ * 6. Create manifest.json with all entry metadata
+ *
+ * Sources, globs, filename date patterns and the date window come from
+ * preprocess.config.json (if present), overridden by CLI flags:
+ *
+ *   pnpm preprocess --source Journal --source . --include "**\/*.md" \
+ *     --exclude "Templates/**" --date-pattern iso --date-pattern long \
+ *     --years 2024-2025 --since 2024-03-01 --until 2025-12-31 --duplicates merge
+ *
+ * Files resolving to the same date are merged in the order they were written
+ * (default), kept as separate entries with suffixed ids, or rejected.
+ *
+ * Pseudonyms are recorded in redaction-map.json, which stays on this machine;
+ * `pnpm export` uses it to put real names back into the dashboard data.
  */
 
 import { readFileSync, writeFileSync, readdirSync, existsSync, mkdirSync, statSync } from 'fs';
-import { join, basename, dirname } from 'path';
+import { join, basename, relative, resolve, sep } from 'path';
 import { createHash } from 'crypto';
+import { parseArgs } from 'util';
+import {
+  DEFAULT_DATE_PATTERNS,
+  extractDate,
+  isCalendarDate,
+  resolveDatePattern,
+  type DatePattern,
+} from './lib/date-patterns';
+import {
+  parseFrontmatter,
+  extractMetadata,
+  getFrontmatterDate,
+  getCreatedAt,
+  type EntryMetadata,
+} from './lib/frontmatter';
+import {
+  DEFAULT_REDACTION,
+  createRedactor,
+  loadRedactionMap,
+  saveRedactionMap,
+  type RedactionConfig,
+  type Redactor,
+} from './lib/redaction';
 
 // ============================================================================
 // Types (aligned with infrastructure/src/schemas/types.ts)
 // ============================================================================
 
 interface ManifestEntry {
+  entryId: string; // The date, or date_N for further entries on that day
   date: string;
   originalPath: string;
   r2Key: string;
   wordCount: number;
   contentHash: string;
+  metadata?: EntryMetadata; // Only when the frontmatter recorded something
+  mergedFrom?: string[]; // Source files, when several were merged
 }
 
 interface Manifest {
@@ -36,18 +76,209 @@ interface Manifest {
 }
 
 interface ProcessedEntry {
+  entryId: string;
   date: string;
+  createdAt: number; // Orders entries sharing a date
   originalPath: string;
+  mergedFrom?: string[];
   cleanedContent: string;
   wordCount: number;
   contentHash: string;
+  metadata: EntryMetadata;
   warnings: string[];
 }
 
+/**
+ * What to do when several files resolve to the same date:
+ * - merge: one entry, contents joined in the order they were written
+ * - split: one entry each; later ones get ids like 2024-11-16_2
+ * - fail: stop and list the clashes
+ */
+type DuplicatePolicy = 'merge' | 'split' | 'fail';
+
+const DUPLICATE_POLICIES: DuplicatePolicy[] = ['merge', 'split', 'fail'];
+
 interface PreprocessConfig {
-  journalDirs: string[];
+  sources: string[];
+  include: string[];
+  exclude: string[];
+  datePatterns: DatePattern[];
+  since: string | null; // Inclusive YYYY-MM-DD bounds
+  until: string | null;
+  duplicates: DuplicatePolicy;
+  redaction: RedactionConfig | null; // null when turned off
   outputDir: string;
   manifestPath: string;
+  redactionMapPath: string;
+  skipDirs: string[]; // Never searched for entries: our own output and build dirs
+}
+
+/**
+ * preprocess.config.json; every field is optional
+ */
+interface PreprocessConfigFile {
+  sources?: string[]; // Relative to the project root
+  include?: string[]; // Globs relative to each source
+  exclude?: string[];
+  datePatterns?: string[]; // Built-in names or regexes with named groups
+  years?: string; // "2024-2025" or "2024"
+  since?: string;
+  until?: string;
+  duplicates?: DuplicatePolicy;
+  redaction?: Partial<RedactionConfig> | false; // false sends text unredacted
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG_FILE = 'preprocess.config.json';
+
+// Generated under the project root, alongside preprocessed/. With a source of
+// "." these would otherwise be read back in as journal entries.
+const GENERATED_DIRS = [
+  'reports/output',
+  'dashboard/build',
+  'dashboard/static/data',
+  'infrastructure/dist',
+  'dist',
+  'build',
+  'coverage',
+];
+
+const DEFAULT_CONFIG: Required<
+  Pick<PreprocessConfigFile, 'sources' | 'include' | 'exclude' | 'duplicates'>
+> = {
+  sources: ['Journal'],
+  include: ['**/*.md'],
+  exclude: [],
+  duplicates: 'merge',
+};
+
+/**
+ * Merge defaults, the config file and CLI flags (flags win)
+ */
+function loadConfig(projectRoot: string, argv: string[]): PreprocessConfig {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: 'string' },
+      source: { type: 'string', multiple: true },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      'date-pattern': { type: 'string', multiple: true },
+      years: { type: 'string' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      duplicates: { type: 'string' },
+    },
+  });
+
+  const configPath = resolve(projectRoot, values.config ?? CONFIG_FILE);
+  let file: PreprocessConfigFile = {};
+  if (existsSync(configPath)) {
+    file = JSON.parse(readFileSync(configPath, 'utf-8')) as PreprocessConfigFile;
+    console.log(`Using config: ${configPath}`);
+  } else if (values.config) {
+    throw new Error(`Config file not found: ${configPath}`);
+  }
+
+  const sources = values.source ?? file.sources ?? DEFAULT_CONFIG.sources;
+  const years = parseYears(values.years ?? file.years);
+  const since = latest(years?.since, parseBound('since', values.since ?? file.since));
+  const until = earliest(years?.until, parseBound('until', values.until ?? file.until));
+  if (since && until && since > until) {
+    throw new Error(`Empty date window: ${since} is after ${until}`);
+  }
+
+  const duplicates = (values.duplicates ?? file.duplicates ?? DEFAULT_CONFIG.duplicates) as DuplicatePolicy;
+  if (!DUPLICATE_POLICIES.includes(duplicates)) {
+    throw new Error(`--duplicates must be one of ${DUPLICATE_POLICIES.join(', ')}, got "${duplicates}"`);
+  }
+
+  return {
+    sources: sources.map((source) => resolve(projectRoot, source)),
+    include: values.include ?? file.include ?? DEFAULT_CONFIG.include,
+    exclude: values.exclude ?? file.exclude ?? DEFAULT_CONFIG.exclude,
+    datePatterns: (values['date-pattern'] ?? file.datePatterns ?? DEFAULT_DATE_PATTERNS).map(
+      resolveDatePattern
+    ),
+    since,
+    until,
+    duplicates,
+    redaction: file.redaction === false ? null : { ...DEFAULT_REDACTION, ...file.redaction },
+    outputDir: join(projectRoot, 'preprocessed'),
+    manifestPath: join(projectRoot, 'preprocessed', 'manifest.json'),
+    // Outside preprocessed/ so it can never be uploaded with the entries
+    redactionMapPath: join(projectRoot, 'redaction-map.json'),
+    skipDirs: [
+      join(projectRoot, 'preprocessed'),
+      ...GENERATED_DIRS.map((dir) => join(projectRoot, dir)),
+    ],
+  };
+}
+
+/**
+ * "2024-2025" or "2024" → inclusive date bounds
+ */
+function parseYears(value: string | undefined): { since: string; until: string } | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{4})(?:-(\d{4}))?$/);
+  if (!match) {
+    throw new Error(`--years must look like 2024 or 2024-2025, got "${value}"`);
+  }
+  return { since: `${match[1]}-01-01`, until: `${match[2] ?? match[1]}-12-31` };
+}
+
+function parseBound(name: string, value: string | undefined): string | null {
+  if (!value) return null;
+  if (!isCalendarDate(value)) {
+    throw new Error(`--${name} must be a YYYY-MM-DD date, got "${value}"`);
+  }
+  return value;
+}
+
+function latest(a: string | null | undefined, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+function earliest(a: string | null | undefined, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a < b ? a : b;
+}
+
+function isInWindow(date: string, config: PreprocessConfig): boolean {
+  return (!config.since || date >= config.since) && (!config.until || date <= config.until);
+}
+
+/**
+ * Glob → RegExp over "/"-separated relative paths. Supports **, * and ?.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" matches zero or more directories
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
 }
 
 // ============================================================================
@@ -85,65 +316,19 @@ function normalizeWikiLinks(content: string): string {
 }
 
 /**
- * Extract frontmatter from markdown content
- * Returns the frontmatter as an object and the content without frontmatter
+ * Metadata reaches the model too, so every text field (tags, location,
+ * weather, and any added later) is redacted like the body
  */
-function parseFrontmatter(content: string): { frontmatter: Record<string, unknown>; body: string } {
-  const frontmatterPattern = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
-  const match = content.match(frontmatterPattern);
-
-  if (!match) {
-    return { frontmatter: {}, body: content };
-  }
-
-  const frontmatterStr = match[1];
-  const body = content.slice(match[0].length);
-
-  // Simple YAML parsing for common fields
-  const frontmatter: Record<string, unknown> = {};
-  const lines = frontmatterStr.split('\n');
-
-  for (const line of lines) {
-    const colonIndex = line.indexOf(':');
-    if (colonIndex > 0) {
-      const key = line.slice(0, colonIndex).trim();
-      let value: string | boolean = line.slice(colonIndex + 1).trim();
-
-      // Remove quotes if present
-      if ((value.startsWith('"') && value.endsWith('"')) ||
-          (value.startsWith("'") && value.endsWith("'"))) {
-        value = value.slice(1, -1);
-      }
-
-      // Parse booleans
-      if (value === 'true') value = true as unknown as string;
-      if (value === 'false') value = false as unknown as string;
-
-      frontmatter[key] = value;
-    }
-  }
-
-  return { frontmatter, body };
-}
-
-/**
- * Extract date from filename (expects YYYY-MM-DD.md format)
- */
-function extractDateFromFilename(filename: string): string | null {
-  const datePattern = /^(\d{4}-\d{2}-\d{2})\.md$/;
-  const match = filename.match(datePattern);
-  return match ? match[1] : null;
-}
-
-/**
- * Validate date format (YYYY-MM-DD)
- */
-function isValidDate(dateStr: string): boolean {
-  const pattern = /^\d{4}-\d{2}-\d{2}$/;
-  if (!pattern.test(dateStr)) return false;
-
-  const date = new Date(dateStr);
-  return !isNaN(date.getTime());
+function redactMetadata(metadata: EntryMetadata, redactor: Redactor | null): EntryMetadata {
+  if (!redactor) return metadata;
+  const redactValue = (value: unknown): unknown => {
+    if (typeof value === 'string') return redactor.redact(value);
+    if (Array.isArray(value)) return value.map(redactValue);
+    return value;
+  };
+  return Object.fromEntries(
+    Object.entries(metadata).map(([field, value]) => [field, redactValue(value)])
+  ) as EntryMetadata;
 }
 
 /**
@@ -171,52 +356,73 @@ function hashContent(content: string): string {
 // ============================================================================
 
 /**
- * Recursively find all .md files in a directory
+ * Recursively find files under a source directory whose path (relative to
+ * it) matches an include glob and no exclude glob. Hidden directories,
+ * node_modules and `skipDirs` (absolute paths) are never entered, so a
+ * source can be the project root.
  */
-function findMarkdownFiles(dir: string): string[] {
+function findJournalFiles(
+  sourceDir: string,
+  include: RegExp[],
+  exclude: RegExp[],
+  skipDirs: string[] = []
+): string[] {
   const files: string[] = [];
-
-  if (!existsSync(dir)) {
-    console.warn(`Directory not found: ${dir}`);
-    return files;
-  }
-
-  const entries = readdirSync(dir, { withFileTypes: true });
-
-  for (const entry of entries) {
-    const fullPath = join(dir, entry.name);
-
-    if (entry.isDirectory()) {
-      files.push(...findMarkdownFiles(fullPath));
-    } else if (entry.isFile() && entry.name.endsWith('.md')) {
-      files.push(fullPath);
+  const skip = new Set(skipDirs.map((dir) => resolve(dir)));
+
+  const walk = (dir: string): void => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = join(dir, entry.name);
+      const relativePath = relative(sourceDir, fullPath).split(sep).join('/');
+
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+        if (skip.has(resolve(fullPath))) continue;
+        walk(fullPath);
+      } else if (
+        entry.isFile() &&
+        include.some((glob) => glob.test(relativePath)) &&
+        !exclude.some((glob) => glob.test(relativePath))
+      ) {
+        files.push(fullPath);
+      }
     }
-  }
+  };
 
+  walk(sourceDir);
   return files;
 }
 
 /**
  * Process a single journal entry
  */
-function processEntry(filePath: string, baseDir: string): ProcessedEntry | null {
+function processEntry(
+  filePath: string,
+  baseDir: string,
+  datePatterns: DatePattern[],
+  redactor: Redactor | null
+): ProcessedEntry | null {
   const warnings: string[] = [];
   const filename = basename(filePath);
-  const relativePath = filePath.replace(baseDir, '').replace(/^\//, '');
+  const relativePath = relative(baseDir, filePath).split(sep).join('/');
 
   // Extract date from filename
-  const filenameDate = extractDateFromFilename(filename);
+  const filenameDate = extractDate(filename, datePatterns);
 
   if (!filenameDate) {
-    warnings.push(`Filename does not match YYYY-MM-DD.md format: ${filename}`);
+    const names = datePatterns.map((p) => p.name).join(', ');
+    warnings.push(`Filename matches no date pattern (${names}): ${filename}`);
   }
 
   // Read and parse content
   const rawContent = readFileSync(filePath, 'utf-8');
-  const { frontmatter, body } = parseFrontmatter(rawContent);
+  const { frontmatter, body, error } = parseFrontmatter(rawContent);
+  if (error) {
+    warnings.push(`Invalid YAML frontmatter, ignored: ${error.split('\n')[0]}`);
+  }
 
   // Check frontmatter date
-  const frontmatterDate = frontmatter.date as string | undefined;
+  const frontmatterDate = getFrontmatterDate(frontmatter);
   let finalDate = filenameDate;
 
   if (frontmatterDate && filenameDate) {
@@ -230,13 +436,14 @@ function processEntry(filePath: string, baseDir: string): ProcessedEntry | null
     warnings.push(`Using frontmatter date (filename invalid): ${finalDate}`);
   }
 
-  if (!finalDate || !isValidDate(finalDate)) {
+  if (!finalDate || !isCalendarDate(finalDate)) {
     console.error(`[SKIP] Cannot determine valid date for: ${filePath}`);
     return null;
   }
 
-  // Clean content
+  // Clean content (redacted before links lose their folder)
   let cleanedContent = stripMetaBindBlocks(rawContent);
+  if (redactor) cleanedContent = redactor.redact(cleanedContent);
   cleanedContent = normalizeWikiLinks(cleanedContent);
 
   // Calculate metrics
@@ -244,15 +451,99 @@ function processEntry(filePath: string, baseDir: string): ProcessedEntry | null
   const contentHash = hashContent(cleanedContent);
 
   return {
+    entryId: finalDate,
     date: finalDate,
+    // Files without a created timestamp fall back to their modification time
+    createdAt: getCreatedAt(frontmatter) ?? statSync(filePath).mtimeMs,
     originalPath: relativePath,
     cleanedContent,
     wordCount,
     contentHash,
+    metadata: redactMetadata(extractMetadata(frontmatter), redactor),
     warnings,
   };
 }
 
+// ============================================================================
+// Duplicate Dates
+// ============================================================================
+
+/**
+ * Apply the duplicate policy to entries sharing a date. Returns entries
+ * sorted by date, then by when they were written.
+ */
+function resolveDuplicates(entries: ProcessedEntry[], policy: DuplicatePolicy): ProcessedEntry[] {
+  const byDate = new Map<string, ProcessedEntry[]>();
+  for (const entry of entries) {
+    byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry]);
+  }
+
+  const clashes = Array.from(byDate.values()).filter((group) => group.length > 1);
+  if (clashes.length > 0 && policy === 'fail') {
+    const lines = clashes.map(
+      (group) => `  ${group[0].date}: ${group.map((e) => e.originalPath).join(', ')}`
+    );
+    throw new Error(
+      `${clashes.length} dates have more than one entry (--duplicates fail):\n${lines.join('\n')}`
+    );
+  }
+
+  const resolved: ProcessedEntry[] = [];
+  for (const date of Array.from(byDate.keys()).sort()) {
+    const group = byDate.get(date)!.sort((a, b) => a.createdAt - b.createdAt);
+    if (group.length === 1) {
+      resolved.push(group[0]);
+    } else if (policy === 'merge') {
+      resolved.push(mergeEntries(group));
+    } else {
+      group.forEach((entry, i) => {
+        const entryId = i === 0 ? date : `${date}_${i + 1}`;
+        resolved.push({
+          ...entry,
+          entryId,
+          warnings: [...entry.warnings, `Kept as ${entryId} (${group.length} entries on ${date})`],
+        });
+      });
+    }
+  }
+  return resolved;
+}
+
+/**
+ * One entry from several written on the same day, in the order given
+ */
+function mergeEntries(group: ProcessedEntry[]): ProcessedEntry {
+  const [first] = group;
+  // Later files lose their frontmatter; its fields are folded in below. The
+  // divider leaves out the file path: content is already redacted, paths are not.
+  const cleanedContent = group
+    .map((entry, i) =>
+      i === 0
+        ? entry.cleanedContent
+        : `<!-- merged entry -->\n\n${parseFrontmatter(entry.cleanedContent).body.trim()}`
+    )
+    .join('\n\n');
+
+  // Earlier entries win for single values; tags are combined
+  const metadata: EntryMetadata = {};
+  for (const entry of [...group].reverse()) Object.assign(metadata, entry.metadata);
+  const tags = Array.from(new Set(group.flatMap((entry) => entry.metadata.tags ?? [])));
+  if (tags.length > 0) metadata.tags = tags;
+
+  return {
+    ...first,
+    cleanedContent,
+    wordCount: group.reduce((sum, entry) => sum + entry.wordCount, 0),
+    contentHash: hashContent(cleanedContent),
+    metadata,
+    mergedFrom: group.map((entry) => entry.originalPath),
+    warnings: [
+      ...group.flatMap((entry) => entry.warnings),
+      `Merged ${group.length} entries for ${first.date}: ${group.map((e) => e.originalPath).join(', ')}`,
+    ],
+  };
+}
+
 // ============================================================================
 // Main Preprocessing Pipeline
 // ============================================================================
@@ -264,14 +555,18 @@ async function main(): Promise<void> {
 
   // Configuration
   const projectRoot = process.cwd();
-  const config: PreprocessConfig = {
-    journalDirs: [
-      join(projectRoot, 'Journal', '2024'),
-      join(projectRoot, 'Journal', '2025'),
-    ],
-    outputDir: join(projectRoot, 'preprocessed'),
-    manifestPath: join(projectRoot, 'preprocessed', 'manifest.json'),
-  };
+  let config: PreprocessConfig;
+  try {
+    config = loadConfig(projectRoot, process.argv.slice(2));
+  } catch (error) {
+    console.error(`\n[ERROR] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  console.log(`  Date patterns: ${config.datePatterns.map((p) => p.name).join(', ')}`);
+  console.log(`  Date window:   ${config.since ?? 'start'} to ${config.until ?? 'end'}`);
+  console.log(`  Duplicates:    ${config.duplicates}`);
+  console.log(`  Redaction:     ${config.redaction ? 'on' : 'OFF (text leaves this machine as written)'}`);
 
   // Ensure output directory exists
   if (!existsSync(config.outputDir)) {
@@ -281,22 +576,24 @@ async function main(): Promise<void> {
 
   // Find all journal files
   console.log('\nScanning for journal entries...');
-  const allFiles: string[] = [];
-
-  for (const journalDir of config.journalDirs) {
-    if (existsSync(journalDir)) {
-      const files = findMarkdownFiles(journalDir);
-      allFiles.push(...files);
-      console.log(`  Found ${files.length} entries in ${journalDir}`);
+  const include = config.include.map(globToRegExp);
+  const exclude = config.exclude.map(globToRegExp);
+  const allFiles = new Set<string>(); // Sources may overlap
+
+  for (const sourceDir of config.sources) {
+    if (existsSync(sourceDir)) {
+      const files = findJournalFiles(sourceDir, include, exclude, config.skipDirs);
+      files.forEach((file) => allFiles.add(file));
+      console.log(`  Found ${files.length} entries in ${sourceDir}`);
     } else {
-      console.log(`  [WARN] Directory not found: ${journalDir}`);
+      console.log(`  [WARN] Directory not found: ${sourceDir}`);
     }
   }
 
-  if (allFiles.length === 0) {
+  if (allFiles.size === 0) {
     console.log('\nNo journal entries found. Nothing to preprocess.');
     console.log('Place your journal entries in:');
-    config.journalDirs.forEach(d => console.log(`  - ${d}`));
+    config.sources.forEach(d => console.log(`  - ${d}`));
 
     // Create empty manifest
     const emptyManifest: Manifest = {
@@ -311,42 +608,58 @@ async function main(): Promise<void> {
   }
 
   // Process each entry
-  console.log(`\nProcessing ${allFiles.length} entries...`);
-  const processedEntries: ProcessedEntry[] = [];
+  console.log(`\nProcessing ${allFiles.size} entries...`);
+  const candidates: ProcessedEntry[] = [];
   const skippedFiles: string[] = [];
   const allWarnings: { file: string; warnings: string[] }[] = [];
+  let outOfWindow = 0;
+
+  const redactionMap = loadRedactionMap(config.redactionMapPath);
+  const redactor = config.redaction ? createRedactor(config.redaction, redactionMap) : null;
 
   for (const filePath of allFiles) {
-    const baseDir = dirname(dirname(dirname(filePath))); // Go up to project root
-    const result = processEntry(filePath, projectRoot);
+    const result = processEntry(filePath, projectRoot, config.datePatterns, redactor);
 
-    if (result) {
-      processedEntries.push(result);
-      if (result.warnings.length > 0) {
-        allWarnings.push({ file: result.originalPath, warnings: result.warnings });
-      }
+    if (result && !isInWindow(result.date, config)) {
+      outOfWindow++;
+    } else if (result) {
+      candidates.push(result);
     } else {
       skippedFiles.push(filePath);
     }
   }
 
-  // Sort by date
-  processedEntries.sort((a, b) => a.date.localeCompare(b.date));
+  // Resolve files sharing a date (sorted by date, then time written)
+  let processedEntries: ProcessedEntry[];
+  try {
+    processedEntries = resolveDuplicates(candidates, config.duplicates);
+  } catch (error) {
+    console.error(`\n[ERROR] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  for (const entry of processedEntries) {
+    if (entry.warnings.length > 0) {
+      allWarnings.push({ file: entry.originalPath, warnings: entry.warnings });
+    }
+  }
 
   // Write preprocessed entries
   console.log('\nWriting preprocessed entries...');
   for (const entry of processedEntries) {
-    const outputPath = join(config.outputDir, `${entry.date}.md`);
+    const outputPath = join(config.outputDir, `${entry.entryId}.md`);
     writeFileSync(outputPath, entry.cleanedContent);
   }
 
   // Build manifest
   const manifestEntries: ManifestEntry[] = processedEntries.map(entry => ({
+    entryId: entry.entryId,
     date: entry.date,
     originalPath: entry.originalPath,
-    r2Key: `journals/${entry.date}.md`,
+    r2Key: `journals/${entry.entryId}.md`,
     wordCount: entry.wordCount,
     contentHash: entry.contentHash,
+    ...(Object.keys(entry.metadata).length > 0 && { metadata: entry.metadata }),
+    ...(entry.mergedFrom && { mergedFrom: entry.mergedFrom }),
   }));
 
   const dates = manifestEntries.map(e => e.date).sort();
@@ -363,15 +676,31 @@ async function main(): Promise<void> {
   // Write manifest
   writeFileSync(config.manifestPath, JSON.stringify(manifest, null, 2));
 
+  // Keep pseudonyms stable for the next run and for re-identification
+  if (redactor) {
+    saveRedactionMap(config.redactionMapPath, redactionMap);
+  }
+
   // Summary
   console.log('\n' + '='.repeat(60));
   console.log('Preprocessing Complete');
   console.log('='.repeat(60));
   console.log(`  Total entries processed: ${processedEntries.length}`);
+  console.log(`  Days with several files: ${new Set(processedEntries.filter(e => e.mergedFrom || e.entryId !== e.date).map(e => e.date)).size}`);
   console.log(`  Entries skipped:         ${skippedFiles.length}`);
+  console.log(`  Outside date window:     ${outOfWindow}`);
+  console.log(`  With frontmatter fields: ${manifestEntries.filter(e => e.metadata).length}`);
+  if (redactor) {
+    const pseudonyms = Object.keys(redactionMap.people).length + Object.keys(redactionMap.places).length;
+    console.log(`  Names pseudonymized:     ${redactor.counts.names} (${pseudonyms} pseudonyms)`);
+    console.log(`  Contact details masked:  ${redactor.counts.contacts}`);
+  }
   console.log(`  Date range:              ${manifest.dateRange.start} to ${manifest.dateRange.end}`);
   console.log(`  Output directory:        ${config.outputDir}`);
   console.log(`  Manifest:                ${config.manifestPath}`);
+  if (redactor) {
+    console.log(`  Redaction map:           ${config.redactionMapPath} (local only)`);
+  }
 
   // Report warnings
   if (allWarnings.length > 0) {
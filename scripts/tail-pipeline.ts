@@ -0,0 +1,232 @@
+/**
+ * Tail a pipeline run
+ *
+ * This script:
+ * 1. Connects to the coordinator's /api/stream (Server-Sent Events)
+ * 2. Prints phase changes, extraction and tier progress, failures and spend
+ * 3. Reconnects if the connection drops, and exits once a run it saw active
+ *    finishes (started between runs, it waits for the next one)
+ *
+ * Reads WORKER_URL and API_READ_TOKEN (or API_CONTROL_TOKEN) from the
+ * environment or secrets.json.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface TailConfig {
+  workerUrl: string;
+  token: string;
+}
+
+interface StreamEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * The run being tailed: the last one the stream showed active. Kept across
+ * reconnects, so a run that ends while disconnected still ends the tail.
+ */
+interface Watch {
+  runId: string | null;
+}
+
+// ============================================================================
+// Configuration & Helpers
+// ============================================================================
+
+const RECONNECT_DELAY_MS = 5000;
+
+const FINAL_PHASES = ['complete', 'cancelled'];
+
+function loadConfig(projectRoot: string): TailConfig {
+  const secretsPath = join(projectRoot, 'secrets.json');
+  const secrets: Record<string, string> = existsSync(secretsPath)
+    ? JSON.parse(readFileSync(secretsPath, 'utf-8'))
+    : {};
+
+  const workerUrl = process.env.WORKER_URL ?? secrets.WORKER_URL;
+  const token =
+    process.env.API_READ_TOKEN ??
+    secrets.API_READ_TOKEN ??
+    process.env.API_CONTROL_TOKEN ??
+    secrets.API_CONTROL_TOKEN;
+
+  if (!workerUrl || workerUrl.includes('your-')) {
+    throw new Error('Set WORKER_URL in secrets.json or the environment');
+  }
+  if (!token) {
+    throw new Error('Set API_READ_TOKEN (or API_CONTROL_TOKEN) in secrets.json or the environment');
+  }
+
+  return { workerUrl: workerUrl.replace(/\/+$/, ''), token };
+}
+
+function timestamp(): string {
+  return new Date().toLocaleTimeString('en-GB', { hour12: false });
+}
+
+function log(tag: string, message: string): void {
+  console.log(`${timestamp()} [${tag}] ${message}`);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Split an SSE body into events. Comment lines (keepalives) are skipped.
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+      }
+      if (data.length > 0) yield { event, data: data.join('\n') };
+    }
+  }
+}
+
+// ============================================================================
+// Event Output
+// ============================================================================
+
+/**
+ * Print one event. Returns true once the watched run has finished.
+ */
+function printEvent({ event, data }: StreamEvent, watch: Watch): boolean {
+  const payload = JSON.parse(data);
+
+  switch (event) {
+    case 'state': {
+      const progress =
+        payload.phase === 'extracting'
+          ? ` ${payload.processedEntries}/${payload.totalEntries} entries`
+          : payload.phase === 'aggregating'
+            ? ` ${payload.currentTier} ${payload.tierCompleted}/${payload.tierJobs}`
+            : '';
+      log('STATE', `${payload.phase}${payload.paused ? ' (paused)' : ''}${progress}`);
+      const finished = runFinished(payload, watch);
+      if (!finished && watch.runId === null) log('STATE', 'waiting for a run to start');
+      return finished;
+    }
+    case 'phase': {
+      const tier = payload.currentTier ? ` → ${payload.currentTier}` : '';
+      const paused = payload.paused ? ` (paused: ${payload.pauseReason})` : '';
+      const failed = payload.failedJobs > 0 ? ` (${payload.failedJobs} jobs failed)` : '';
+      log('PHASE', `${payload.phase}${tier}${paused}${failed}`);
+      return runFinished(payload, watch);
+    }
+    case 'extraction':
+      logJob(payload.failed, `extraction ${payload.date}`, payload.processed, payload.total);
+      return false;
+    case 'tier':
+      logJob(payload.failed, `${payload.tier} ${payload.range}`, payload.completed, payload.total);
+      return false;
+    case 'failure':
+      log('FAIL', `${payload.jobId} attempt ${payload.attempt}: ${payload.error}`);
+      return false;
+    case 'cost': {
+      const budget = payload.budgetUsd === null ? '' : ` of $${payload.budgetUsd.toFixed(2)}`;
+      log('COST', `$${payload.costUsd.toFixed(4)}${budget}`);
+      return false;
+    }
+    default:
+      log(event.toUpperCase(), data);
+      return false;
+  }
+}
+
+/**
+ * Follow the run in a state or phase event. Only a run seen active counts as
+ * finished, so a run that had already ended when the tail connected (e.g.
+ * `pnpm tail` started before /api/start) doesn't end it.
+ */
+function runFinished(payload: { runId: string | null; phase: string }, watch: Watch): boolean {
+  if (FINAL_PHASES.includes(payload.phase)) {
+    return payload.runId !== null && payload.runId === watch.runId;
+  }
+  if (payload.phase !== 'idle') watch.runId = payload.runId;
+  return false;
+}
+
+/**
+ * A job counted towards its phase: completed, or dead-lettered (failed)
+ */
+function logJob(failed: boolean, job: string, done: number, total: number): void {
+  log(failed ? 'FAIL' : 'OK', `${job}${failed ? ' dead-lettered' : ''} (${done}/${total})`);
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log('Pipeline Progress');
+  console.log('='.repeat(60));
+
+  let config: TailConfig;
+  try {
+    config = loadConfig(process.cwd());
+  } catch (error) {
+    console.error(`\n[ERROR] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  console.log(`\nConnecting to ${config.workerUrl}/api/stream (Ctrl-C to stop)\n`);
+
+  const watch: Watch = { runId: null };
+  for (;;) {
+    try {
+      const response = await fetch(`${config.workerUrl}/api/stream`, {
+        headers: { Authorization: `Bearer ${config.token}`, Accept: 'text/event-stream' },
+      });
+      if (response.status === 401 || response.status === 403) {
+        console.error(`\n[ERROR] ${response.status}: check the API token`);
+        process.exit(1);
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+
+      for await (const event of readEvents(response.body)) {
+        if (printEvent(event, watch)) {
+          console.log('\n' + '='.repeat(60));
+          console.log('Run finished');
+          console.log('='.repeat(60));
+          return;
+        }
+      }
+      log('WARN', 'stream closed');
+    } catch (error) {
+      log('WARN', `connection lost: ${error instanceof Error ? error.message : error}`);
+    }
+
+    await sleep(RECONNECT_DELAY_MS);
+    log('INFO', 'reconnecting...');
+  }
+}
+
+main().catch((error) => {
+  console.error('\n[FATAL ERROR]', error);
+  process.exit(1);
+});
@@ -5,23 +5,24 @@
  * 1. Reads manifest.json from preprocessing
  * 2. Uploads each journal entry to R2 (reflections-journals bucket)
  * 3. Uploads manifest.json
+ *
+ * With ENCRYPTION_KEY in secrets.json, every object is envelope-encrypted
+ * (infrastructure/src/lib/envelope.ts, shared with the Worker) and the
+ * Worker needs the same key as a secret.
  */
 
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { S3Client, PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { loadSecrets, createR2Client, getEncryptionKey, type Secrets } from './lib/r2-client';
+import { encryptObject, getKeyId } from '../infrastructure/src/lib/envelope';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface Secrets {
-  CLOUDFLARE_ACCOUNT_ID: string;
-  R2_ACCESS_KEY_ID: string;
-  R2_SECRET_ACCESS_KEY: string;
-}
-
 interface ManifestEntry {
+  entryId?: string; // Absent in manifests from before multi-entry days
   date: string;
   originalPath: string;
   r2Key: string;
@@ -39,6 +40,11 @@ interface Manifest {
   entries: ManifestEntry[];
 }
 
+interface Encryption {
+  key: string;
+  keyId: string;
+}
+
 interface UploadResult {
   key: string;
   success: boolean;
@@ -52,49 +58,26 @@ interface UploadResult {
 
 const BUCKET_NAME = 'reflections-journals';
 
-function loadSecrets(secretsPath: string): Secrets {
-  if (!existsSync(secretsPath)) {
-    throw new Error(
-      `Secrets file not found: ${secretsPath}\n` +
-      `Copy secrets_template.json to secrets.json and fill in your credentials.`
-    );
-  }
-
-  const content = readFileSync(secretsPath, 'utf-8');
-  const secrets = JSON.parse(content) as Secrets;
-
-  const required = ['CLOUDFLARE_ACCOUNT_ID', 'R2_ACCESS_KEY_ID', 'R2_SECRET_ACCESS_KEY'];
-  for (const key of required) {
-    if (!secrets[key as keyof Secrets] || secrets[key as keyof Secrets].includes('your-')) {
-      throw new Error(`Missing or invalid value for ${key} in secrets.json`);
-    }
-  }
-
-  return secrets;
-}
-
-function createR2Client(secrets: Secrets): S3Client {
-  return new S3Client({
-    region: 'auto',
-    endpoint: `https://${secrets.CLOUDFLARE_ACCOUNT_ID}.r2.cloudflarestorage.com`,
-    credentials: {
-      accessKeyId: secrets.R2_ACCESS_KEY_ID,
-      secretAccessKey: secrets.R2_SECRET_ACCESS_KEY,
-    },
-  });
-}
-
 /**
- * Check if an object exists in R2 with the same content hash
+ * Check if an object exists in R2 with the same content hash, stored the
+ * same way (so turning encryption on or changing keys re-uploads)
  */
-async function objectExists(client: S3Client, key: string, contentHash: string): Promise<boolean> {
+async function objectExists(
+  client: S3Client,
+  key: string,
+  contentHash: string,
+  encryption: Encryption | null
+): Promise<boolean> {
   try {
     const response = await client.send(new HeadObjectCommand({
       Bucket: BUCKET_NAME,
       Key: key,
     }));
     // Check if content hash matches (stored in metadata)
-    return response.Metadata?.['content-hash'] === contentHash;
+    return (
+      response.Metadata?.['content-hash'] === contentHash &&
+      response.Metadata?.['encryption-key-id'] === encryption?.keyId
+    );
   } catch {
     return false;
   }
@@ -108,21 +91,23 @@ async function uploadFile(
   key: string,
   content: string,
   contentHash: string,
+  encryption: Encryption | null,
   skipIfExists: boolean = true
 ): Promise<UploadResult> {
   try {
     // Check if already uploaded with same hash
-    if (skipIfExists && await objectExists(client, key, contentHash)) {
+    if (skipIfExists && await objectExists(client, key, contentHash, encryption)) {
       return { key, success: true, skipped: true };
     }
 
     await client.send(new PutObjectCommand({
       Bucket: BUCKET_NAME,
       Key: key,
-      Body: content,
-      ContentType: 'text/markdown',
+      Body: encryption ? await encryptObject(content, encryption.key, key) : content,
+      ContentType: encryption ? 'application/octet-stream' : 'text/markdown',
       Metadata: {
         'content-hash': contentHash,
+        ...(encryption && { 'encryption-key-id': encryption.keyId }),
       },
     }));
 
@@ -175,6 +160,20 @@ async function main(): Promise<void> {
     return;
   }
 
+  let encryption: Encryption | null = null;
+  const encryptionKey = getEncryptionKey(secrets);
+  try {
+    encryption = encryptionKey ? { key: encryptionKey, keyId: await getKeyId(encryptionKey) } : null;
+  } catch (error) {
+    console.error(`\n[ERROR] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  console.log(
+    encryption
+      ? `  Encryption: on (key id ${encryption.keyId})`
+      : '  Encryption: OFF (set ENCRYPTION_KEY to encrypt objects)'
+  );
+
   // Create R2 client
   console.log('\nConnecting to R2...');
   const client = createR2Client(secrets);
@@ -189,7 +188,7 @@ async function main(): Promise<void> {
 
   for (let i = 0; i < manifest.entries.length; i++) {
     const entry = manifest.entries[i];
-    const localPath = join(preprocessedDir, `${entry.date}.md`);
+    const localPath = join(preprocessedDir, `${entry.entryId ?? entry.date}.md`);
 
     if (!existsSync(localPath)) {
       console.error(`  [MISS] Local file not found: ${localPath}`);
@@ -199,7 +198,7 @@ async function main(): Promise<void> {
     }
 
     const content = readFileSync(localPath, 'utf-8');
-    const result = await uploadFile(client, entry.r2Key, content, entry.contentHash);
+    const result = await uploadFile(client, entry.r2Key, content, entry.contentHash, encryption);
     results.push(result);
 
     if (result.success) {
@@ -228,6 +227,7 @@ async function main(): Promise<void> {
     'manifest.json',
     manifestContent,
     manifest.generatedAt, // Use generation timestamp as hash for manifest
+    encryption,
     false // Always upload manifest
   );
 
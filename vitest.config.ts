@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Root scripts only; infrastructure/ and dashboard/ run their own tests
+export default defineConfig({
+  test: {
+    include: ['scripts/**/*.test.ts', 'reports/**/*.test.ts'],
+  },
+});